@@ -0,0 +1,100 @@
+import { World } from '../game/World';
+import { Player } from '../game/entities/Player';
+import { Random } from '../game/Random';
+import { SnapshotEncoder } from '../game/protocol/SnapshotEncoder';
+
+// Compares per-client bandwidth of the JSON `game:update` messages against the
+// binary delta-compressed `game:snapshot` messages on a populated server.
+//
+// Usage: npm run bench:snapshots --workspace=api
+
+const PLAYER_COUNT = 50;
+const SECONDS = 20;
+const TICK_RATE = 60;
+const ACK_DELAY_TICKS = 6; // ~100 ms round trip before the client's ack arrives
+
+// Players are packed into the middle of the map so they actually see each other
+const ARENA_SIZE = 3000;
+
+function main(): void {
+  // World logs every spawn and join; keep the report readable
+  const log = console.log;
+  console.log = () => {};
+  
+  const world = new World(11000, 11000, undefined, 1234);
+  world.startResourceSpawning();
+  const random = new Random(99);
+  
+  const players: Player[] = [];
+  const encoders: SnapshotEncoder[] = [];
+  const pendingAcks: number[][] = [];
+  
+  for (let i = 0; i < PLAYER_COUNT; i++) {
+    const position = {
+      x: (11000 - ARENA_SIZE) / 2 + random.next() * ARENA_SIZE,
+      y: (11000 - ARENA_SIZE) / 2 + random.next() * ARENA_SIZE
+    };
+    const player = new Player(`bench-${i}`, `Captain ${i}`, position, i % 6, 1 + (i % 20), 2, world.random);
+    player.updateSize();
+    world.addPlayer(player);
+    players.push(player);
+    encoders.push(new SnapshotEncoder());
+    pendingAcks.push([]);
+  }
+  
+  let jsonBytes = 0;
+  let binaryBytes = 0;
+  const totalTicks = SECONDS * TICK_RATE;
+  
+  for (let tick = 0; tick < totalTicks; tick++) {
+    // Wander and fire now and then
+    players.forEach((player, i) => {
+      if (tick % 30 === i % 30) {
+        const turn = random.next();
+        player.controls = { moveForward: random.next() < 0.9, rotateLeft: turn < 0.3, rotateRight: turn > 0.7, brake: false };
+      }
+      if (tick % 120 === i % 120) {
+        world.createProjectiles(player);
+      }
+    });
+    
+    world.update(1000 / TICK_RATE);
+    
+    players.forEach((player, i) => {
+      const visible = world.getVisibleEntities(player);
+      
+      // JSON path, exactly as GameRoom.sendUpdates builds it
+      const entityUpdates = world.getEntityUpdates(player.knownEntityVersions, visible);
+      if (entityUpdates.length > 0 || player.version !== player.lastSentVersion) {
+        jsonBytes += Buffer.byteLength(JSON.stringify({
+          player: player.serialize(),
+          entities: entityUpdates
+        }));
+        player.lastSentVersion = player.version;
+      }
+      
+      // Binary path with delayed acknowledgements
+      const snapshot = encoders[i].encode(player, visible);
+      binaryBytes += snapshot.length;
+      
+      const acks = pendingAcks[i];
+      acks.push(snapshot.readUInt32LE(1));
+      if (acks.length > ACK_DELAY_TICKS) {
+        encoders[i].acknowledge(acks.shift() as number);
+      }
+    });
+  }
+  
+  console.log = log;
+  
+  const perClient = (bytes: number) => bytes / PLAYER_COUNT / SECONDS;
+  const format = (bytesPerSecond: number) => `${(bytesPerSecond / 1024).toFixed(1)} KB/s`;
+  
+  console.log(`${PLAYER_COUNT} players in a ${ARENA_SIZE}x${ARENA_SIZE} arena, ${SECONDS}s at ${TICK_RATE} Hz, ${ACK_DELAY_TICKS}-tick ack delay`);
+  console.log('');
+  console.log(`  JSON game:update       ${format(perClient(jsonBytes)).padStart(12)} per client   ${format(jsonBytes / SECONDS).padStart(12)} total`);
+  console.log(`  Binary game:snapshot   ${format(perClient(binaryBytes)).padStart(12)} per client   ${format(binaryBytes / SECONDS).padStart(12)} total`);
+  console.log(`  Reduction              ${((1 - binaryBytes / jsonBytes) * 100).toFixed(1).padStart(11)}%`);
+}
+
+main();
@@ -0,0 +1,66 @@
+import { World } from '../game/World';
+import { Player } from '../game/entities/Player';
+
+// Measures how the cost of one server tick scales with player and rock counts.
+// A tick here is what GameRoom.update does every frame: World.update() followed by
+// a visibility query for every connected player.
+//
+// Usage: npm run bench --workspace=api
+
+const PLAYER_COUNTS = [10, 50, 100, 200];
+const ROCK_COUNTS = [1000, 2000, 3000];
+const WARMUP_TICKS = 20;
+const MEASURED_TICKS = 200;
+const TICK_MS = 1000 / 60;
+
+function runScenario(playerCount: number, rockCount: number): number {
+  const world = new World(11000, 11000);
+  world.setRockConfiguration(rockCount, Math.max(rockCount, 3000));
+  world.respawnRocks();
+
+  const players: Player[] = [];
+  for (let i = 0; i < playerCount; i++) {
+    const player = new Player(`bench-${i}`, `Bench ${i}`, world.getRandomSpawnPosition(), i % 6, 1 + (i % 40), 2);
+    player.updateSize();
+    player.controls = { moveForward: true, rotateLeft: i % 3 === 0, rotateRight: i % 3 === 1, brake: false };
+    world.addPlayer(player);
+    players.push(player);
+  }
+
+  const tick = () => {
+    world.update(TICK_MS);
+    for (const player of players) {
+      world.getVisibleEntities(player);
+    }
+  };
+
+  for (let i = 0; i < WARMUP_TICKS; i++) tick();
+
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < MEASURED_TICKS; i++) tick();
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+
+  return elapsedMs / MEASURED_TICKS;
+}
+
+function main(): void {
+  // World logs every player join; keep the report readable
+  const log = console.log;
+  console.log = () => {};
+
+  const rows: string[] = [];
+  for (const rockCount of ROCK_COUNTS) {
+    for (const playerCount of PLAYER_COUNTS) {
+      const msPerTick = runScenario(playerCount, rockCount);
+      rows.push(
+        `${String(rockCount).padStart(6)} ${String(playerCount).padStart(8)} ${msPerTick.toFixed(3).padStart(10)} ${(msPerTick / TICK_MS * 100).toFixed(1).padStart(9)}%`
+      );
+    }
+  }
+
+  console.log = log;
+  console.log(' rocks  players    ms/tick  tick budget');
+  rows.forEach(row => console.log(row));
+}
+
+main();
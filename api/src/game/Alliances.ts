@@ -0,0 +1,224 @@
+// Alliances between players. Allied ships can't hurt each other and see each
+// other marked in their alliance's colour. Players form alliances by request and
+// acceptance, or in team mode are put on one of a fixed set of teams when they join.
+
+export interface Alliance {
+  id: number;
+  name: string;
+  color: string;
+  members: Set<string>; // Player ids
+  fixed: boolean; // A team-mode team: can't be left and never disbands
+}
+
+// An alliance as sent to its members (`player:alliance`)
+export interface AllianceStatus {
+  id: number;
+  name: string;
+  color: string;
+  members: Array<{ id: string, name: string }>;
+  maxSize: number | null; // null = no cap (teams)
+  fixed: boolean;
+}
+
+// Why an alliance request or answer was refused
+export type AllianceRefusal = 'team_mode' | 'self' | 'already_allied' | 'both_allied' | 'full' | 'no_request' | 'npc';
+
+export const ALLIANCE_REFUSAL_MESSAGES: Record<AllianceRefusal, string> = {
+  team_mode: 'Teams are fixed on this server',
+  self: 'You cannot ally with yourself',
+  already_allied: 'You are already allies',
+  both_allied: 'One of you must leave their alliance first',
+  full: 'That alliance is full',
+  no_request: 'That request has expired',
+  npc: 'NPC captains sail alone'
+};
+
+// Colours alliances and teams are told apart by
+const ALLIANCE_COLORS = [
+  { name: 'Crimson', color: '#e53935' },
+  { name: 'Azure', color: '#1e88e5' },
+  { name: 'Emerald', color: '#43a047' },
+  { name: 'Gold', color: '#fdd835' },
+  { name: 'Violet', color: '#8e24aa' },
+  { name: 'Amber', color: '#fb8c00' },
+  { name: 'Teal', color: '#00acc1' },
+  { name: 'Rose', color: '#d81b60' }
+];
+
+export const MAX_TEAMS = ALLIANCE_COLORS.length;
+
+export class AllianceManager {
+  // Most ships in one player-made alliance
+  static readonly MAX_SIZE: number = 4;
+  
+  // Unanswered requests lapse after this long (ms of simulation time)
+  static readonly REQUEST_TIMEOUT_MS: number = 30000;
+  
+  private alliances: Map<number, Alliance> = new Map();
+  private playerAlliances: Map<string, Alliance> = new Map();
+  private requests: Map<string, Map<string, number>> = new Map(); // Target -> requester -> expiry time
+  private teams: Alliance[] = []; // Empty unless in team mode
+  private nextAllianceId: number = 1;
+  
+  // Switch to `count` fixed teams (0 = player-made alliances). Every existing
+  // alliance and request is dropped; players must be assigned again.
+  setTeams(count: number): void {
+    this.alliances.clear();
+    this.playerAlliances.clear();
+    this.requests.clear();
+    this.teams = [];
+    
+    for (let i = 0; i < Math.min(count, MAX_TEAMS); i++) {
+      const team = this.createAlliance(i, true);
+      this.teams.push(team);
+    }
+  }
+  
+  isTeamMode(): boolean {
+    return this.teams.length > 0;
+  }
+  
+  getTeams(): Alliance[] {
+    return this.teams;
+  }
+  
+  // Put a player on the team with the fewest members (team mode only)
+  assignTeam(playerId: string): Alliance | undefined {
+    if (!this.isTeamMode()) return undefined;
+    
+    const team = this.teams.reduce((smallest, t) => t.members.size < smallest.members.size ? t : smallest);
+    this.join(team, playerId);
+    return team;
+  }
+  
+  getAlliance(playerId: string): Alliance | undefined {
+    return this.playerAlliances.get(playerId);
+  }
+  
+  areAllied(a: string, b: string): boolean {
+    const alliance = this.playerAlliances.get(a);
+    return alliance !== undefined && alliance === this.playerAlliances.get(b);
+  }
+  
+  // Ask another player to ally; null if the request now awaits their answer
+  request(fromId: string, toId: string, now: number): AllianceRefusal | null {
+    const refusal = this.checkJoin(fromId, toId);
+    if (refusal) return refusal;
+    
+    let pending = this.requests.get(toId);
+    if (!pending) {
+      pending = new Map();
+      this.requests.set(toId, pending);
+    }
+    pending.set(fromId, now + AllianceManager.REQUEST_TIMEOUT_MS);
+    return null;
+  }
+  
+  // Accept a pending request: the two players end up in the same alliance (an
+  // existing one of theirs, or a new one)
+  accept(playerId: string, fromId: string, now: number): Alliance | AllianceRefusal {
+    const expiresAt = this.requests.get(playerId)?.get(fromId);
+    this.decline(playerId, fromId);
+    if (expiresAt === undefined || expiresAt < now) return 'no_request';
+    
+    // Things may have changed since the request was made
+    const refusal = this.checkJoin(fromId, playerId);
+    if (refusal) return refusal;
+    
+    const alliance = this.playerAlliances.get(fromId)
+      || this.playerAlliances.get(playerId)
+      || this.createAlliance(this.pickColor(), false);
+    this.join(alliance, fromId);
+    this.join(alliance, playerId);
+    return alliance;
+  }
+  
+  // Drop a pending request; false if there wasn't one
+  decline(playerId: string, fromId: string): boolean {
+    const pending = this.requests.get(playerId);
+    if (!pending || !pending.delete(fromId)) return false;
+    
+    if (pending.size === 0) {
+      this.requests.delete(playerId);
+    }
+    return true;
+  }
+  
+  // Leave a player-made alliance (it disbands once a single member remains);
+  // false if the player isn't in one
+  leave(playerId: string): boolean {
+    const alliance = this.playerAlliances.get(playerId);
+    if (!alliance || alliance.fixed) return false;
+    
+    this.removeMember(alliance, playerId);
+    return true;
+  }
+  
+  // Forget a player who left the game, including requests to and from them
+  removePlayer(playerId: string): void {
+    this.requests.delete(playerId);
+    for (const pending of this.requests.values()) {
+      pending.delete(playerId);
+    }
+    
+    const alliance = this.playerAlliances.get(playerId);
+    if (alliance) {
+      this.removeMember(alliance, playerId);
+    }
+  }
+  
+  // Whether `fromId` and `toId` could end up in one alliance
+  private checkJoin(fromId: string, toId: string): AllianceRefusal | null {
+    if (this.isTeamMode()) return 'team_mode';
+    if (fromId === toId) return 'self';
+    if (this.areAllied(fromId, toId)) return 'already_allied';
+    
+    const fromAlliance = this.playerAlliances.get(fromId);
+    const toAlliance = this.playerAlliances.get(toId);
+    if (fromAlliance && toAlliance) return 'both_allied';
+    
+    const existing = fromAlliance || toAlliance;
+    if (existing && existing.members.size >= AllianceManager.MAX_SIZE) return 'full';
+    
+    return null;
+  }
+  
+  private createAlliance(colorIndex: number, fixed: boolean): Alliance {
+    const { name, color } = ALLIANCE_COLORS[colorIndex % ALLIANCE_COLORS.length];
+    const alliance: Alliance = {
+      id: this.nextAllianceId++,
+      name: `${name} ${fixed ? 'Team' : 'Fleet'}`,
+      color,
+      members: new Set(),
+      fixed
+    };
+    this.alliances.set(alliance.id, alliance);
+    return alliance;
+  }
+  
+  // First colour no current alliance uses, so allies stand out from other fleets
+  private pickColor(): number {
+    const used = new Set(Array.from(this.alliances.values()).map(alliance => alliance.color));
+    const free = ALLIANCE_COLORS.findIndex(entry => !used.has(entry.color));
+    return free !== -1 ? free : this.nextAllianceId;
+  }
+  
+  private join(alliance: Alliance, playerId: string): void {
+    alliance.members.add(playerId);
+    this.playerAlliances.set(playerId, alliance);
+  }
+  
+  private removeMember(alliance: Alliance, playerId: string): void {
+    alliance.members.delete(playerId);
+    this.playerAlliances.delete(playerId);
+    
+    // An alliance of one is no alliance
+    if (!alliance.fixed && alliance.members.size <= 1) {
+      for (const memberId of alliance.members) {
+        this.playerAlliances.delete(memberId);
+      }
+      alliance.members.clear();
+      this.alliances.delete(alliance.id);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+// Cannon ammunition. Round shot is unlimited; the others are loaded from ammo
+// crates found at sea and each fire a different kind of projectile.
+export type AmmoType = 'round' | 'chain' | 'grape' | 'explosive';
+
+export interface AmmoDefinition {
+  type: AmmoType;
+  name: string;
+  speedMultiplier: number; // Of the ship class's cannonball speed
+  cooldownMultiplier: number; // Of the ship's reload time
+  damage: number; // Per projectile, before upgrades
+  lifetimeMs: number; // How long projectiles fly before dropping (before upgrades)
+  size: number; // Projectile hit radius (px)
+  pellets: number; // Projectiles per cannon
+  spread: number; // Pellets fan out over this angle either side of the cannon (radians)
+  slowFactor: number; // Ships hit sail at this fraction of their speed...
+  slowMs: number; // ...for this long
+  splashRadius: number; // Explodes on impact (or when it drops), hurting ships and rocks in range
+  splashDamage: number;
+  capacity: number | null; // Most a ship can carry; null = unlimited
+  crateAmount: number; // Loaded from each ammo crate
+}
+
+export const AMMO_TYPES: AmmoDefinition[] = [
+  {
+    type: 'round',
+    name: 'Round Shot',
+    speedMultiplier: 1,
+    cooldownMultiplier: 1,
+    damage: 1,
+    lifetimeMs: 3000,
+    size: 5,
+    pellets: 1,
+    spread: 0,
+    slowFactor: 1,
+    slowMs: 0,
+    splashRadius: 0,
+    splashDamage: 0,
+    capacity: null,
+    crateAmount: 0
+  },
+  {
+    type: 'chain',
+    name: 'Chain Shot',
+    speedMultiplier: 0.85,
+    cooldownMultiplier: 1.25,
+    damage: 0.5,
+    lifetimeMs: 2000,
+    size: 8,
+    pellets: 1,
+    spread: 0,
+    slowFactor: 0.5,
+    slowMs: 3000,
+    splashRadius: 0,
+    splashDamage: 0,
+    capacity: 12,
+    crateAmount: 4
+  },
+  {
+    type: 'grape',
+    name: 'Grapeshot',
+    speedMultiplier: 1.2,
+    cooldownMultiplier: 0.9,
+    damage: 0.4,
+    lifetimeMs: 700,
+    size: 3,
+    pellets: 3,
+    spread: 0.3,
+    slowFactor: 1,
+    slowMs: 0,
+    splashRadius: 0,
+    splashDamage: 0,
+    capacity: 12,
+    crateAmount: 4
+  },
+  {
+    type: 'explosive',
+    name: 'Explosive Shot',
+    speedMultiplier: 0.8,
+    cooldownMultiplier: 1.5,
+    damage: 0.5,
+    lifetimeMs: 3000,
+    size: 6,
+    pellets: 1,
+    spread: 0,
+    slowFactor: 1,
+    slowMs: 0,
+    splashRadius: 80,
+    splashDamage: 1,
+    capacity: 8,
+    crateAmount: 3
+  }
+];
+
+export type AmmoCounts = Record<AmmoType, number>;
+
+// A ship's ammo as sent to its client (`player:ammo`)
+export interface AmmoStatus {
+  selected: AmmoType;
+  ammo: Array<{ type: AmmoType, name: string, count: number | null, capacity: number | null }>;
+}
+
+export function getAmmo(type: AmmoType): AmmoDefinition {
+  return AMMO_TYPES.find(ammo => ammo.type === type)!;
+}
+
+// Ships start with round shot only
+export function createAmmoCounts(): AmmoCounts {
+  return { round: 0, chain: 0, grape: 0, explosive: 0 };
+}
@@ -0,0 +1,77 @@
+import { Player } from './entities/Player';
+
+// Bounties on dominant ships. A ship on a kill streak or grown big gets a price
+// on its head that rises with both, so everyone else has a reason to go after
+// it. Whoever sinks it claims the bounty as score and wood.
+
+// A bounty as sent to clients (`game:bounties`), who point the way to it
+export interface Bounty {
+  id: string; // The ship with the price on its head
+  name: string;
+  value: number; // Score the claimer gets
+}
+
+export class BountyBoard {
+  // A ship qualifies with this many kills since it last sank, or this much HP
+  static readonly MIN_STREAK: number = 3;
+  static readonly MIN_HP: number = 50;
+  
+  // Only the highest bounties stand, so the hunt stays focused
+  static readonly MAX_BOUNTIES: number = 3;
+  
+  // value = BASE + per kill in the streak + per HP, rounded to ROUNDING
+  static readonly BASE_VALUE: number = 100;
+  static readonly VALUE_PER_KILL: number = 50;
+  static readonly VALUE_PER_HP: number = 2;
+  static readonly ROUNDING: number = 10;
+  
+  // Wood (HP) the claimer gets per point of bounty
+  static readonly WOOD_PER_POINT: number = 0.05;
+  
+  private bounties: Map<string, Bounty> = new Map(); // Ship id -> its bounty
+  
+  // Work out who has a bounty now. A bounty stands until its ship sinks or
+  // leaves, and never drops in value (a ship worn down in a fight is still worth
+  // finishing off); free places go to the highest qualifying ships. Returns the
+  // ships that just got one.
+  update(ships: Player[]): Player[] {
+    const bounties = new Map<string, Bounty>();
+    const candidates: Array<{ ship: Player, value: number }> = [];
+    for (const ship of ships) {
+      const held = this.bounties.get(ship.id);
+      const value = BountyBoard.getValue(ship);
+      if (held) {
+        bounties.set(ship.id, { ...held, value: Math.max(held.value, value) });
+      } else if (ship.killStreak >= BountyBoard.MIN_STREAK || ship.hp >= BountyBoard.MIN_HP) {
+        candidates.push({ ship, value });
+      }
+    }
+    
+    const placed = candidates
+      .sort((a, b) => b.value - a.value)
+      .slice(0, Math.max(0, BountyBoard.MAX_BOUNTIES - bounties.size));
+    for (const { ship, value } of placed) {
+      bounties.set(ship.id, { id: ship.id, name: ship.name, value });
+    }
+    
+    this.bounties = bounties;
+    return placed.map(({ ship }) => ship);
+  }
+  
+  // What a ship's bounty is worth if it has one
+  static getValue(ship: Player): number {
+    const value = BountyBoard.BASE_VALUE + ship.killStreak * BountyBoard.VALUE_PER_KILL + ship.hp * BountyBoard.VALUE_PER_HP;
+    return Math.round(value / BountyBoard.ROUNDING) * BountyBoard.ROUNDING;
+  }
+  
+  // The bounty on a ship, if any; it's claimed (removed) when the ship sinks
+  claim(shipId: string): Bounty | undefined {
+    const bounty = this.bounties.get(shipId);
+    this.bounties.delete(shipId);
+    return bounty;
+  }
+  
+  getBounties(): Bounty[] {
+    return Array.from(this.bounties.values());
+  }
+}
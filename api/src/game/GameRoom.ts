@@ -0,0 +1,441 @@
+import { Server, Socket } from 'socket.io';
+import { World } from './World';
+import { Player } from './entities/Player';
+import { SnapshotEncoder } from './protocol/SnapshotEncoder';
+import { LEADERBOARD_SIZE, getPlayerStats, toLeaderboardEntry } from './Scoring';
+import { ControlsInput, FireInput, JoinRequest, RoomSettings, RoomStats, UpgradePickInput, AmmoSelectInput, AllianceRequestInput, AllianceResponseInput } from './types';
+
+// One game instance: a World, the players in it and its own tick loop.
+// Its clients share a Socket.IO room, so broadcasts only reach this game.
+export class GameRoom {
+  readonly id: string;
+  readonly settings: RoomSettings;
+  readonly world: World;
+  private io: Server;
+  private players: Map<string, Player> = new Map();
+  private snapshotEncoders: Map<string, SnapshotEncoder> = new Map(); // Clients using the binary protocol
+  private tickInterval: NodeJS.Timeout | null = null;
+  private createdAt = Date.now();
+  
+  // Fixed-timestep simulation: wall time is accumulated and consumed in whole ticks
+  private fixedDeltaTime: number;
+  private accumulator = 0;
+  private lastTickTime = 0;
+  private maxTicksPerUpdate = 5; // Drop the backlog instead of spiralling if the server falls behind
+  private simulationTime = Date.now(); // Timestamp sent with updates so clients can interpolate
+  private shipBroadcastRate = 50; // Milliseconds between ship broadcasts (20 times/second)
+  private lastShipBroadcast = 0;
+  private windBroadcastRate = 1000; // Milliseconds between wind broadcasts (it changes slowly)
+  private lastWindBroadcast = 0;
+  private scoreboardBroadcastRate = 1000; // Milliseconds between scoreboard broadcasts (modes also send one on every score)
+  private lastScoreboardBroadcast = 0;
+  private leaderboardBroadcastRate = 250; // Milliseconds between leaderboard broadcasts (4 times/second)
+  private lastLeaderboardBroadcast = 0;
+  private bountyBroadcastRate = 500; // Milliseconds between bounty broadcasts (values change as ships grow)
+  private lastBountyBroadcast = 0;
+  private debugMode: boolean = false; // Disable verbose logging to improve performance
+  
+  constructor(io: Server, id: string, settings: RoomSettings) {
+    this.io = io;
+    this.id = id;
+    this.settings = settings;
+    this.fixedDeltaTime = 1000 / settings.tickRate;
+    this.world = new World(11000, 11000, io, settings.seed); // Pass io to the World
+    
+    // Fixed teams must be set up before anyone (NPCs included) joins
+    if (settings.teams) {
+      this.world.setTeams(settings.teams);
+    }
+    
+    // Then the game mode, which may bring its own teams and spawn points
+    if (settings.mode) {
+      this.world.setGameMode(settings.mode);
+    }
+    
+    // Keep a lone player company
+    if (settings.npcCount) {
+      this.world.setNpcConfiguration(settings.npcCount, settings.npcDifficulty || 'normal');
+    }
+  }
+  
+  addPlayer(socket: Socket, data: JoinRequest): void {
+    // Create a spawn position (random safe spot)
+    const spawnPosition = this.world.getRandomSpawnPosition();
+    
+    // Create new player with initial stats
+    const player = new Player(
+      socket.id,
+      data.name || 'Guest',
+      spawnPosition,
+      data.shipType,
+      1, // Initial HP
+      2, // Initial cannons (1 per side)
+      this.world.random
+    );
+    
+    // Add player to the game
+    this.players.set(socket.id, player);
+    this.world.addPlayer(player);
+    socket.join(this.id);
+    
+    // Clients that understand binary snapshots get delta-compressed updates
+    if (data.protocol === 'binary') {
+      this.snapshotEncoders.set(socket.id, new SnapshotEncoder());
+    }
+    
+    if (this.debugMode) {
+      console.log(`Player ${player.name} (${socket.id.substring(0, 8)}) joined room ${this.id} at position (${Math.floor(spawnPosition.x)}, ${Math.floor(spawnPosition.y)})`);
+    }
+    
+    // Send initial game state to the player
+    this.sendInitialState(socket);
+    
+    // Match modes: how the match stands
+    const scoreboard = this.world.getScoreboard();
+    if (scoreboard) {
+      socket.emit('game:scoreboard', scoreboard);
+    }
+    
+    // Announce new player
+    this.broadcastKillfeed(`${player.name} has joined the battle!`);
+  }
+  
+  private sendInitialState(socket: Socket): void {
+    const player = this.players.get(socket.id);
+    if (!player) return;
+    
+    // Increase viewport radius for initial state to show more of the map
+    const initialViewportRadius = 2500; // Increased from 1500 to show much more of the map initially
+    
+    // Get all entities for the player's initial viewport
+    const visibleEntities = this.world.getVisibleEntitiesWithRadius(player, initialViewportRadius);
+    
+    // Send game state to player
+    socket.emit('game:state', {
+      player: player.serialize(),
+      ships: visibleEntities.ships.map(ship => ship.serialize()),
+      resources: visibleEntities.resources.map(resource => resource.serialize()),
+      rocks: visibleEntities.rocks.map(rock => rock.serialize()),
+      projectiles: visibleEntities.projectiles.map(p => p.serialize()),
+      zones: visibleEntities.zones.map(zone => zone.serialize()),
+      wind: this.world.wind.serialize(),
+    }, this.simulationTime);
+  }
+  
+  acknowledgeSnapshot(playerId: string, sequence: number): void {
+    this.snapshotEncoders.get(playerId)?.acknowledge(sequence);
+  }
+  
+  handlePlayerControls(playerId: string, controls: ControlsInput): void {
+    const player = this.players.get(playerId);
+    if (!player) return;
+    
+    // Ignore inputs older than one we've already applied
+    if (typeof controls.sequence === 'number') {
+      if (controls.sequence <= player.lastInputSequence) return;
+      
+      player.lastInputSequence = controls.sequence;
+      player.lastInputTime = typeof controls.timestamp === 'number' ? controls.timestamp : 0;
+    }
+    
+    // Update player controls
+    player.controls = {
+      moveForward: controls.moveForward || false,
+      rotateLeft: controls.rotateLeft || false,
+      rotateRight: controls.rotateRight || false,
+      brake: controls.brake || false,
+    };
+  }
+  
+  handleCannonFire(playerId: string, data?: FireInput): void {
+    const player = this.players.get(playerId);
+    if (!player) return;
+    
+    // How far behind the current world state the shooter was looking
+    // (the world caps this at its maximum rewind)
+    let rewindMs = 0;
+    if (data && typeof data.viewTime === 'number' && Number.isFinite(data.viewTime)) {
+      rewindMs = Math.max(0, this.simulationTime - data.viewTime);
+    }
+    
+    // Check if player can fire (has enough cannons)
+    if (player.cannons >= 2) {
+      // Fire the requested side, or both
+      this.world.createProjectiles(player, rewindMs, data?.side ? [data.side] : undefined);
+    }
+  }
+  
+  handleAmmoSelect(playerId: string, data: AmmoSelectInput): void {
+    // Selecting ammo we've run out of does nothing
+    this.world.selectAmmo(playerId, data.type);
+  }
+  
+  handleUpgradePick(playerId: string, pick: UpgradePickInput): void {
+    // Picks for an offer that's gone (answered, or lost on death) are dropped
+    if (!this.world.pickUpgrade(playerId, pick.offerId, pick.upgrade) && this.debugMode) {
+      console.log(`Player ${playerId.substring(0, 8)} picked ${pick.upgrade} from stale offer ${pick.offerId}`);
+    }
+  }
+  
+  handleAllianceRequest(playerId: string, data: AllianceRequestInput): void {
+    this.world.requestAlliance(playerId, data.playerId);
+  }
+  
+  handleAllianceResponse(playerId: string, data: AllianceResponseInput): void {
+    this.world.respondToAlliance(playerId, data.playerId, data.accept);
+  }
+  
+  handleAllianceLeave(playerId: string): void {
+    this.world.leaveAlliance(playerId);
+  }
+  
+  handleShipUpdateRequest(playerId: string): void {
+    const requestingPlayer = this.players.get(playerId);
+    if (!requestingPlayer) return;
+    
+    const socket = this.io.sockets.sockets.get(playerId);
+    if (!socket) return;
+    
+    // Get all ships, NPCs included
+    const allShips = this.world.getShips();
+    
+    // Send ship data for all ships (excluding the requesting player)
+    const otherShips = allShips.filter(ship => ship.id !== playerId);
+    
+    if (this.debugMode) {
+      console.log(`Player ${playerId.substring(0, 8)} requested ship updates. Sending ${otherShips.length} ships.`);
+    }
+    
+    // Send them all in one message rather than one per ship
+    socket.emit('ships:batch_update', otherShips.map(ship => ship.serialize()), this.simulationTime);
+  }
+  
+  removePlayer(playerId: string): void {
+    const player = this.players.get(playerId);
+    if (!player) return;
+    
+    console.log(`Player left room ${this.id}: ${playerId} (${player.name})`);
+    
+    // Before removing player, create a removal notification for all clients
+    const removalData = {
+      id: playerId,
+      removed: true
+    };
+    
+    // Broadcast ship removal to all remaining clients
+    this.io.to(this.id).emit('entity:removed', removalData);
+    
+    // Also include in the next batch update as removed
+    this.io.to(this.id).emit('ship:update', removalData);
+    
+    // Remove player from the game
+    this.players.delete(playerId);
+    this.snapshotEncoders.delete(playerId);
+    this.world.removePlayer(playerId);
+    this.io.sockets.sockets.get(playerId)?.leave(this.id);
+    
+    // Announce player left
+    this.broadcastKillfeed(`${player.name} has abandoned ship!`);
+  }
+  
+  private broadcastKillfeed(message: string): void {
+    this.io.to(this.id).emit('game:killfeed', message);
+  }
+  
+  private update(): void {
+    // Accumulate the wall time that actually passed since the last update
+    const now = Date.now();
+    this.accumulator += now - this.lastTickTime;
+    this.lastTickTime = now;
+    
+    // Step the game world in fixed increments
+    let ticks = 0;
+    while (this.accumulator >= this.fixedDeltaTime && ticks < this.maxTicksPerUpdate) {
+      this.world.update(this.fixedDeltaTime); // deltaTime in milliseconds
+      this.accumulator -= this.fixedDeltaTime;
+      ticks++;
+    }
+    
+    // If we hit the cap, discard the remaining backlog rather than trying to catch up
+    if (this.accumulator >= this.fixedDeltaTime) {
+      if (this.debugMode) {
+        console.log(`Room ${this.id}: dropping ${Math.floor(this.accumulator / this.fixedDeltaTime)} ticks of backlog`);
+      }
+      this.accumulator = 0;
+    }
+    
+    // Nothing changed since the last update
+    if (ticks === 0) return;
+    
+    // Wall time the world state now corresponds to (leftover accumulator hasn't been simulated yet)
+    this.simulationTime = now - this.accumulator;
+    
+    // Check if it's time to broadcast ship positions
+    if (now - this.lastShipBroadcast >= this.shipBroadcastRate) {
+      this.broadcastShipPositions();
+      this.lastShipBroadcast = now;
+    }
+    
+    // Keep clients' wind up to date
+    if (now - this.lastWindBroadcast >= this.windBroadcastRate) {
+      this.io.to(this.id).emit('world:wind', this.world.wind.serialize(), this.simulationTime);
+      this.lastWindBroadcast = now;
+    }
+    
+    // Keep match timers and scores up to date
+    if (now - this.lastScoreboardBroadcast >= this.scoreboardBroadcastRate) {
+      const scoreboard = this.world.getScoreboard();
+      if (scoreboard) {
+        this.io.to(this.id).emit('game:scoreboard', scoreboard);
+      }
+      this.lastScoreboardBroadcast = now;
+    }
+    
+    // Keep the leaderboard and everyone's rank up to date
+    if (now - this.lastLeaderboardBroadcast >= this.leaderboardBroadcastRate) {
+      this.broadcastLeaderboard();
+      this.lastLeaderboardBroadcast = now;
+    }
+    
+    // Keep everyone pointed at the ships with bounties on them
+    if (now - this.lastBountyBroadcast >= this.bountyBroadcastRate) {
+      this.io.to(this.id).emit('game:bounties', this.world.getBounties());
+      this.lastBountyBroadcast = now;
+    }
+    
+    // Send entity updates to each player
+    this.sendUpdates();
+    
+    // Log game state occasionally for debugging
+    if (this.players.size > 0 && Math.random() < 0.01) {
+      console.log(`Room ${this.id}: ${this.players.size} active players`);
+    }
+  }
+  
+  // The top of the leaderboard to everyone, and each player's own standing to them
+  private broadcastLeaderboard(): void {
+    if (this.players.size === 0) return;
+    
+    const rankings = this.world.getRankings();
+    this.io.to(this.id).emit('game:leaderboard', rankings.slice(0, LEADERBOARD_SIZE).map(toLeaderboardEntry));
+    
+    rankings.forEach((ranking, i) => {
+      // NPCs have nobody to tell
+      if (!this.players.has(ranking.player.id)) return;
+      
+      const socket = this.io.sockets.sockets.get(ranking.player.id);
+      socket?.emit('player:stats', getPlayerStats(ranking.player, ranking.score, i + 1, rankings.length));
+    });
+  }
+  
+  private broadcastShipPositions(): void {
+    if (this.players.size === 0) return;
+    
+    // Get all ships (NPCs included) for batch update
+    const allShips = this.world.getShips().map(player => player.serialize());
+    
+    if (this.debugMode) {
+      console.log(`Broadcasting positions for ${allShips.length} ships`);
+    }
+    
+    // Send batch update to everyone in the room
+    if (allShips.length > 0) {
+      this.io.to(this.id).emit('ships:batch_update', allShips, this.simulationTime);
+    }
+    
+    // Log the number of ships occasionally
+    if (Math.random() < 0.01) {
+      console.log(`Room ${this.id}: broadcasting ship positions: ${allShips.length} ships`);
+    }
+  }
+  
+  private sendUpdates(): void {
+    // Skip if no players
+    if (this.players.size === 0) return;
+    
+    // Update each player
+    for (const player of this.players.values()) {
+      const socket = this.io.sockets.sockets.get(player.id);
+      if (!socket) continue;
+      
+      // Get visible entities for this player
+      const currentVisibleEntities = this.world.getVisibleEntities(player);
+      
+      // Binary clients get a delta-compressed snapshot instead of JSON
+      const encoder = this.snapshotEncoders.get(player.id);
+      if (encoder) {
+        socket.emit('game:snapshot', encoder.encode(player, currentVisibleEntities), this.simulationTime);
+        continue;
+      }
+      
+      // Calculate entity updates against what this client already has
+      const entityUpdates = this.world.getEntityUpdates(player.knownEntityVersions, currentVisibleEntities);
+      
+      // Only send update if there are changes
+      if (entityUpdates.length > 0 || player.version !== player.lastSentVersion || player.lastInputSequence !== player.lastSentInputSequence) {
+        // Periodic logging to help debug
+        if (Math.random() < 0.01) {
+          console.log(`Sending updates to ${player.id.substring(0, 8)}: ${entityUpdates.length} updates (ships: ${currentVisibleEntities.ships.length}, resources: ${currentVisibleEntities.resources.length})`);
+        }
+        
+        // Send updates
+        // The player's own state carries the last input applied, for reconciliation
+        socket.emit('game:update', {
+          player: { ...player.serialize(), lastInputSequence: player.lastInputSequence },
+          entities: entityUpdates
+        }, this.simulationTime);
+        
+        player.lastSentVersion = player.version;
+        player.lastSentInputSequence = player.lastInputSequence;
+      }
+    }
+  }
+  
+  start(): void {
+    if (this.tickInterval) return;
+    
+    console.log(`Starting room ${this.id} (${this.settings.name}, tick rate: ${this.settings.tickRate} Hz, max players: ${this.settings.maxPlayers})`);
+    
+    // Start spawning resources
+    this.world.startResourceSpawning();
+    
+    // Start game loop
+    this.accumulator = 0;
+    this.lastTickTime = Date.now();
+    this.tickInterval = setInterval(() => this.update(), this.fixedDeltaTime);
+  }
+  
+  stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    
+    this.world.stopResourceSpawning();
+    console.log(`Room ${this.id} stopped`);
+  }
+  
+  hasPlayer(playerId: string): boolean {
+    return this.players.has(playerId);
+  }
+  
+  getPlayerCount(): number {
+    return this.players.size;
+  }
+  
+  isFull(): boolean {
+    return this.players.size >= this.settings.maxPlayers;
+  }
+  
+  getStats(): RoomStats {
+    return {
+      id: this.id,
+      name: this.settings.name,
+      players: this.players.size,
+      maxPlayers: this.settings.maxPlayers,
+      tickRate: this.settings.tickRate,
+      uptimeSeconds: Math.floor((Date.now() - this.createdAt) / 1000),
+      entities: this.world.getEntityCounts()
+    };
+  }
+}
@@ -0,0 +1,341 @@
+import { Player } from './entities/Player';
+import { Resource } from './entities/Resource';
+import { Rock } from './entities/Rock';
+import { Random } from './Random';
+import { AmmoType } from './Ammo';
+import { BroadsideSide, Vector2 } from './types';
+import { World } from './World';
+
+// Computer-controlled ships. An NPC is an ordinary Player in the World; its
+// NpcBrain fills in the same PlayerControls a client would send and fires the
+// same broadsides.
+
+export type NpcDifficulty = 'easy' | 'normal' | 'hard';
+
+// What an NPC is currently trying to do
+export type NpcState = 'wander' | 'collect' | 'flee' | 'attack' | 'objective';
+
+export interface NpcSkill {
+  decisionIntervalMs: number; // How often it looks around and picks a new heading
+  sightRadius: number; // Ships and resources further away are ignored
+  fireRange: number; // Furthest target it will shoot at
+  aimTolerance: number; // How far off the beam (radians) a target may be and still get shot at
+  fleeHpFraction: number; // Runs from nearby ships once down to this share of its best HP since respawning
+  attackHpRatio: number; // Attacks ships with at most this many times its own HP
+  specialAmmo: boolean; // Loads chain, grape and explosive shot when it has them
+}
+
+export const NPC_DIFFICULTIES: Record<NpcDifficulty, NpcSkill> = {
+  easy: {
+    decisionIntervalMs: 500,
+    sightRadius: 400,
+    fireRange: 300,
+    aimTolerance: Math.PI / 5,
+    fleeHpFraction: 0.7,
+    attackHpRatio: 0.6,
+    specialAmmo: false
+  },
+  normal: {
+    decisionIntervalMs: 250,
+    sightRadius: 550,
+    fireRange: 450,
+    aimTolerance: Math.PI / 8,
+    fleeHpFraction: 0.5,
+    attackHpRatio: 0.9,
+    specialAmmo: true
+  },
+  hard: {
+    decisionIntervalMs: 100,
+    sightRadius: 700,
+    fireRange: 600,
+    aimTolerance: Math.PI / 12,
+    fleeHpFraction: 0.3,
+    attackHpRatio: 1.2,
+    specialAmmo: true
+  }
+};
+
+// Famous captains; the suffix marks them as NPCs in the killfeed and leaderboards
+const NPC_CAPTAINS = [
+  'Blackbeard', 'Anne Bonny', 'Calico Jack', 'Captain Kidd', 'Mary Read', 'Barbarossa',
+  'Black Bart', 'Henry Morgan', 'Grace O\'Malley', 'Ching Shih', 'Stede Bonnet', 'Edward Low'
+];
+
+export function getNpcName(number: number): string {
+  const captain = NPC_CAPTAINS[(number - 1) % NPC_CAPTAINS.length];
+  const round = Math.floor((number - 1) / NPC_CAPTAINS.length);
+  return `${captain}${round > 0 ? ` ${round + 1}` : ''} [NPC]`;
+}
+
+// How far ahead (beyond the ship's own size) to look for rocks
+const ROCK_LOOKAHEAD = 150;
+
+// Closer than this (beyond both sizes) the ship brakes rather than turning in place
+const ROCK_BRAKE_DISTANCE = 30;
+
+// Stay this far inside the map edges
+const EDGE_MARGIN = 300;
+
+// Steering dead zone (radians), so ships don't wobble around their heading
+const HEADING_TOLERANCE = 0.1;
+
+export class NpcBrain {
+  readonly player: Player;
+  state: NpcState = 'wander';
+  private skill: NpcSkill;
+  private random: Random;
+  private decisionTimer: number = 0;
+  private desiredAngle: number;
+  private target: Player | null = null; // Ship being attacked
+  private peakHp: number; // Best HP since respawning, to judge when to run
+  private deaths: number;
+  private wanderTimer: number = 0;
+  private stuckTimer: number = 0;
+  private lastPosition: Vector2;
+  
+  constructor(player: Player, difficulty: NpcDifficulty, random: Random) {
+    this.player = player;
+    this.skill = NPC_DIFFICULTIES[difficulty];
+    this.random = random;
+    this.desiredAngle = player.angle;
+    this.peakHp = player.hp;
+    this.deaths = player.deaths;
+    this.lastPosition = { ...player.position };
+  }
+  
+  setDifficulty(difficulty: NpcDifficulty): void {
+    this.skill = NPC_DIFFICULTIES[difficulty];
+  }
+  
+  // Think (every decisionIntervalMs), steer towards the chosen heading and fire
+  // at the target when it's abeam
+  update(world: World, deltaTime: number): void {
+    const player = this.player;
+    
+    // A respawned ship starts over
+    if (player.deaths !== this.deaths) {
+      this.deaths = player.deaths;
+      this.peakHp = player.hp;
+      this.target = null;
+    }
+    this.peakHp = Math.max(this.peakHp, player.hp);
+    
+    // Answer chest offers straight away
+    const offer = player.upgradeOffer;
+    if (offer) {
+      const option = offer.options[this.random.int(0, offer.options.length - 1)];
+      world.pickUpgrade(player.id, offer.id, option.type);
+    }
+    
+    this.decisionTimer -= deltaTime;
+    this.wanderTimer -= deltaTime;
+    if (this.decisionTimer <= 0) {
+      this.decisionTimer = this.skill.decisionIntervalMs;
+      this.think(world);
+    }
+    
+    // Turn towards the desired heading
+    const diff = angleDifference(this.desiredAngle, player.angle);
+    player.controls.rotateLeft = diff < -HEADING_TOLERANCE;
+    player.controls.rotateRight = diff > HEADING_TOLERANCE;
+    
+    this.fireAtTarget(world);
+  }
+  
+  // Pick a state from what's in sight (allies aside), then a heading for it
+  private think(world: World): void {
+    const player = this.player;
+    const visible = world.getVisibleEntities(player);
+    const ships: Player[] = visible.ships.filter((ship: Player) =>
+      player.distanceTo(ship) <= this.skill.sightRadius && !world.areAllied(player.id, ship.id)
+    );
+    
+    // Ships pinned against something turn away for a while
+    const moved = Math.abs(player.position.x - this.lastPosition.x) + Math.abs(player.position.y - this.lastPosition.y);
+    this.stuckTimer = player.controls.moveForward && moved < 1 ? this.stuckTimer + this.skill.decisionIntervalMs : 0;
+    this.lastPosition = { ...player.position };
+    if (this.stuckTimer > 500) {
+      this.stuckTimer = 0;
+      this.state = 'wander';
+      this.target = null;
+      this.desiredAngle = player.angle + (this.random.next() < 0.5 ? -1 : 1) * Math.PI * 0.75;
+      this.wanderTimer = 2000;
+      this.setThrottle(true);
+      return;
+    }
+    
+    const low = player.hp < this.peakHp * this.skill.fleeHpFraction;
+    const target = low ? null : this.findTarget(ships);
+    const resource = this.findResource(visible.resources);
+    const objective = world.getObjective(player); // What the game mode wants (e.g. the treasure)
+    
+    this.target = target;
+    if (low && ships.length > 0) {
+      this.state = 'flee';
+      this.desiredAngle = this.getFleeAngle(ships);
+    } else if (target) {
+      this.state = 'attack';
+      this.desiredAngle = this.getAttackAngle(target);
+      this.loadAmmo(world, target);
+    } else if (objective) {
+      this.state = 'objective';
+      this.desiredAngle = angleTo(player.position, objective);
+    } else if (resource) {
+      this.state = 'collect';
+      this.desiredAngle = angleTo(player.position, resource.position);
+    } else {
+      this.state = 'wander';
+      if (this.wanderTimer <= 0) {
+        this.desiredAngle = player.angle + this.random.range(-Math.PI / 2, Math.PI / 2);
+        this.wanderTimer = this.random.range(2000, 6000);
+      }
+    }
+    
+    // Head back in from the edges of the map
+    const { width, height } = world;
+    const { x, y } = player.position;
+    if (x < EDGE_MARGIN || x > width - EDGE_MARGIN || y < EDGE_MARGIN || y > height - EDGE_MARGIN) {
+      if (this.state !== 'attack') {
+        this.desiredAngle = angleTo(player.position, { x: width / 2, y: height / 2 });
+      }
+    }
+    
+    this.setThrottle(!this.avoidRocks(visible.rocks));
+  }
+  
+  // Closest ship weak enough to take on
+  private findTarget(ships: Player[]): Player | null {
+    let best: Player | null = null;
+    let bestDistance = Infinity;
+    for (const ship of ships) {
+      if (ship.hp > this.player.hp * this.skill.attackHpRatio) continue;
+      
+      const distance = this.player.distanceTo(ship);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = ship;
+      }
+    }
+    return best;
+  }
+  
+  // Closest resource in sight (all of them are worth having)
+  private findResource(resources: Resource[]): Resource | null {
+    let best: Resource | null = null;
+    let bestDistance = this.skill.sightRadius;
+    for (const resource of resources) {
+      const distance = this.player.distanceTo(resource);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = resource;
+      }
+    }
+    return best;
+  }
+  
+  // Directly away from the ships in sight, closer ones counting for more
+  private getFleeAngle(ships: Player[]): number {
+    let awayX = 0;
+    let awayY = 0;
+    for (const ship of ships) {
+      const dx = this.player.position.x - ship.position.x;
+      const dy = this.player.position.y - ship.position.y;
+      const distanceSq = Math.max(1, dx * dx + dy * dy);
+      awayX += dx / distanceSq;
+      awayY += dy / distanceSq;
+    }
+    return Math.atan2(awayY, awayX);
+  }
+  
+  // Bring a broadside to bear: sail across the target's bearing, cutting in
+  // towards it while it's out of range
+  private getAttackAngle(target: Player): number {
+    const bearing = angleTo(this.player.position, target.position);
+    const distance = this.player.distanceTo(target);
+    const offset = distance > this.skill.fireRange * 0.8 ? Math.PI / 4 : Math.PI / 2;
+    
+    // Whichever way round needs the least turning
+    const toPort = bearing + offset;
+    const toStarboard = bearing - offset;
+    return Math.abs(angleDifference(toPort, this.player.angle)) < Math.abs(angleDifference(toStarboard, this.player.angle))
+      ? toPort
+      : toStarboard;
+  }
+  
+  // Fire the broadside facing the target when it's in range and abeam
+  private fireAtTarget(world: World): void {
+    const target = this.target;
+    if (!target || this.player.distanceTo(target) > this.skill.fireRange + target.size) return;
+    
+    // Starboard is a quarter turn clockwise of the heading, port a quarter turn anticlockwise
+    const bearing = angleDifference(angleTo(this.player.position, target.position), this.player.angle);
+    if (Math.abs(Math.abs(bearing) - Math.PI / 2) > this.skill.aimTolerance) return;
+    
+    const side: BroadsideSide = bearing > 0 ? 'starboard' : 'port';
+    if (this.player.canFire(side)) {
+      world.createProjectiles(this.player, 0, [side]);
+    }
+  }
+  
+  // Best special ammo for the range, falling back to round shot
+  private loadAmmo(world: World, target: Player): void {
+    if (!this.skill.specialAmmo) return;
+    
+    const distance = this.player.distanceTo(target);
+    const preferred: AmmoType[] = distance < 250 ? ['grape', 'explosive', 'chain'] : ['explosive', 'chain'];
+    const ammo = preferred.find(type => this.player.hasAmmo(type)) || 'round';
+    if (ammo !== this.player.ammoType) {
+      world.selectAmmo(this.player.id, ammo);
+    }
+  }
+  
+  // Steer around the nearest rock in our path; true if it's so close we should brake
+  private avoidRocks(rocks: Rock[]): boolean {
+    const player = this.player;
+    const headingX = Math.cos(player.angle);
+    const headingY = Math.sin(player.angle);
+    
+    let nearestAhead = Infinity;
+    let nearestSide = 0;
+    let nearestGap = Infinity;
+    for (const rock of rocks) {
+      const dx = rock.position.x - player.position.x;
+      const dy = rock.position.y - player.position.y;
+      const ahead = dx * headingX + dy * headingY;
+      const side = dx * -headingY + dy * headingX; // Positive = to starboard
+      const clearance = rock.size + player.size;
+      
+      if (ahead <= 0 || ahead > ROCK_LOOKAHEAD + clearance) continue;
+      if (Math.abs(side) > clearance + 10) continue;
+      
+      if (ahead < nearestAhead) {
+        nearestAhead = ahead;
+        nearestSide = side;
+        nearestGap = Math.sqrt(dx * dx + dy * dy) - clearance;
+      }
+    }
+    
+    if (nearestAhead === Infinity) return false;
+    
+    // Turn away from the side the rock is on
+    this.desiredAngle = player.angle + (nearestSide > 0 ? -1 : 1) * Math.PI / 2;
+    return nearestGap < ROCK_BRAKE_DISTANCE;
+  }
+  
+  private setThrottle(forward: boolean): void {
+    this.player.controls.moveForward = forward;
+    this.player.controls.brake = !forward;
+  }
+}
+
+function angleTo(from: Vector2, to: Vector2): number {
+  return Math.atan2(to.y - from.y, to.x - from.x);
+}
+
+// Signed smallest difference between two angles, in [-PI, PI]
+function angleDifference(a: number, b: number): number {
+  let diff = (a - b) % (Math.PI * 2);
+  if (diff > Math.PI) diff -= Math.PI * 2;
+  if (diff < -Math.PI) diff += Math.PI * 2;
+  return diff;
+}
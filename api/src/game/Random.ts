@@ -0,0 +1,50 @@
+// Seedable pseudo-random number generator (mulberry32).
+// Every random choice in the simulation goes through an instance of this class so
+// a given seed plus input sequence always reproduces the same world state.
+export class Random {
+  private seed: number;
+  private state: number;
+  
+  constructor(seed: number = Date.now()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+  
+  // Get the seed this generator was created with
+  getSeed(): number {
+    return this.seed;
+  }
+  
+  // Random float in [0, 1), drop-in replacement for Math.random()
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+  
+  // Random float in [min, max)
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+  
+  // Random integer in [min, max]
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+  
+  // RFC 4122 version 4 formatted id drawn from this generator, so entity ids are reproducible too
+  uuid(): string {
+    const hex: string[] = [];
+    for (let i = 0; i < 32; i++) {
+      hex.push(Math.floor(this.next() * 16).toString(16));
+    }
+    
+    hex[12] = '4';
+    hex[16] = (8 + Math.floor(parseInt(hex[16], 16) / 4)).toString(16);
+    
+    const s = hex.join('');
+    return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+  }
+}
@@ -0,0 +1,108 @@
+import { Random } from './Random';
+import { ResourceType } from './entities/Resource';
+
+// Kinds of rock. Each has its own sprite on the client (GameEngine.drawRock),
+// toughness and loot, and some have special behaviour when damaged or sunk.
+export type RockType = 'stone' | 'mossy' | 'boulder' | 'powder' | 'treasure';
+
+// One line of a loot table: `chance` of dropping between min and max of a resource
+export interface LootDrop {
+  resource: ResourceType;
+  chance: number; // 0-1
+  min: number;
+  max: number;
+}
+
+export interface RockVariant {
+  type: RockType;
+  weight: number; // How often it spawns relative to the others
+  hpMultiplier: number; // Of the size-based HP
+  regrowIntervalMs: number; // Damaged rocks regain 1 HP this often (0 = never)
+  explosionRadius: number; // Blows up when destroyed, damaging ships in range (0 = doesn't)
+  explosionDamage: number;
+  loot: LootDrop[];
+}
+
+export const ROCK_VARIANTS: RockVariant[] = [
+  {
+    type: 'stone',
+    weight: 60,
+    hpMultiplier: 1,
+    regrowIntervalMs: 0,
+    explosionRadius: 0,
+    explosionDamage: 0,
+    loot: [{ resource: 'wood', chance: 0.5, min: 1, max: 2 }]
+  },
+  {
+    type: 'mossy',
+    weight: 20,
+    hpMultiplier: 1,
+    regrowIntervalMs: 4000,
+    explosionRadius: 0,
+    explosionDamage: 0,
+    loot: [{ resource: 'wood', chance: 1, min: 2, max: 3 }]
+  },
+  {
+    type: 'boulder',
+    weight: 10,
+    hpMultiplier: 2,
+    regrowIntervalMs: 0,
+    explosionRadius: 0,
+    explosionDamage: 0,
+    loot: [
+      { resource: 'wood', chance: 1, min: 3, max: 5 },
+      { resource: 'chest', chance: 0.1, min: 1, max: 1 }
+    ]
+  },
+  {
+    type: 'powder',
+    weight: 6,
+    hpMultiplier: 0.5,
+    regrowIntervalMs: 0,
+    explosionRadius: 150,
+    explosionDamage: 3,
+    loot: [{ resource: 'ammo', chance: 1, min: 1, max: 2 }]
+  },
+  {
+    type: 'treasure',
+    weight: 4,
+    hpMultiplier: 1.5,
+    regrowIntervalMs: 0,
+    explosionRadius: 0,
+    explosionDamage: 0,
+    loot: [
+      { resource: 'wood', chance: 1, min: 1, max: 2 },
+      { resource: 'chest', chance: 0.4, min: 1, max: 1 }
+    ]
+  }
+];
+
+const TOTAL_WEIGHT = ROCK_VARIANTS.reduce((total, variant) => total + variant.weight, 0);
+
+export function getRockVariant(type: RockType): RockVariant {
+  return ROCK_VARIANTS.find(variant => variant.type === type)!;
+}
+
+// Weighted random variant for a new rock
+export function pickRockVariant(random: Random): RockVariant {
+  let roll = random.next() * TOTAL_WEIGHT;
+  for (const variant of ROCK_VARIANTS) {
+    roll -= variant.weight;
+    if (roll < 0) return variant;
+  }
+  return ROCK_VARIANTS[0];
+}
+
+// Roll a variant's loot table into a list of resources to drop
+export function rollLoot(variant: RockVariant, random: Random): ResourceType[] {
+  const drops: ResourceType[] = [];
+  for (const drop of variant.loot) {
+    if (random.next() >= drop.chance) continue;
+    
+    const count = random.int(drop.min, drop.max);
+    for (let i = 0; i < count; i++) {
+      drops.push(drop.resource);
+    }
+  }
+  return drops;
+}
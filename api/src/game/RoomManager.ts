@@ -0,0 +1,137 @@
+import { Server, Socket } from 'socket.io';
+import { GameRoom } from './GameRoom';
+import { JoinRequest, RoomSettings, RoomStats } from './types';
+
+// Room ids that can be requested by clients
+const ROOM_ID_PATTERN = /^[a-z0-9_-]{1,32}$/i;
+
+// Hosts any number of GameRooms: creates them on demand, routes players and
+// their messages to the right one and tears rooms down once they empty out.
+export class RoomManager {
+  private io: Server;
+  private defaultSettings: RoomSettings;
+  private rooms: Map<string, GameRoom> = new Map();
+  private playerRooms: Map<string, GameRoom> = new Map(); // Socket id -> room
+  private nextRoomNumber = 1;
+  private running = false;
+  
+  constructor(io: Server, defaultSettings: RoomSettings) {
+    this.io = io;
+    this.defaultSettings = defaultSettings;
+  }
+  
+  // Put a player into the room they asked for, or the least busy open room
+  joinRoom(socket: Socket, data: JoinRequest): GameRoom {
+    // Joining again (e.g. after dying and restarting) leaves the previous room first
+    this.leaveRoom(socket.id);
+    
+    const room = this.findRoomForJoin(data.room);
+    this.playerRooms.set(socket.id, room);
+    room.addPlayer(socket, data);
+    
+    socket.emit('room:joined', {
+      id: room.id,
+      name: room.settings.name,
+      players: room.getPlayerCount(),
+      maxPlayers: room.settings.maxPlayers
+    });
+    
+    return room;
+  }
+  
+  // Remove a player from their room, closing the room if it's now empty
+  leaveRoom(playerId: string): void {
+    const room = this.playerRooms.get(playerId);
+    if (!room) return;
+    
+    room.removePlayer(playerId);
+    this.playerRooms.delete(playerId);
+    
+    if (room.getPlayerCount() === 0) {
+      this.destroyRoom(room.id);
+    }
+  }
+  
+  // Room a player is currently in
+  getRoomForPlayer(playerId: string): GameRoom | undefined {
+    return this.playerRooms.get(playerId);
+  }
+  
+  // Create a room with the given settings (defaults for anything omitted)
+  createRoom(id: string, settings: Partial<RoomSettings> = {}): GameRoom {
+    const room = new GameRoom(this.io, id, { ...this.defaultSettings, name: id, ...settings });
+    this.rooms.set(id, room);
+    
+    if (this.running) {
+      room.start();
+    }
+    
+    return room;
+  }
+  
+  // Stop a room and forget it
+  destroyRoom(id: string): void {
+    const room = this.rooms.get(id);
+    if (!room) return;
+    
+    room.stop();
+    this.rooms.delete(id);
+    console.log(`Room ${id} closed (${this.rooms.size} rooms open)`);
+  }
+  
+  // Start ticking every room, including ones created from now on
+  start(): void {
+    this.running = true;
+    for (const room of this.rooms.values()) {
+      room.start();
+    }
+  }
+  
+  stop(): void {
+    this.running = false;
+    for (const room of this.rooms.values()) {
+      room.stop();
+    }
+  }
+  
+  getPlayerCount(): number {
+    return this.playerRooms.size;
+  }
+  
+  getRoomStats(): RoomStats[] {
+    return Array.from(this.rooms.values()).map(room => room.getStats());
+  }
+  
+  private findRoomForJoin(requestedId?: string): GameRoom {
+    // A specific room was asked for: join it, or open it if it doesn't exist yet
+    if (requestedId && ROOM_ID_PATTERN.test(requestedId)) {
+      const requested = this.rooms.get(requestedId);
+      if (!requested) {
+        return this.createRoom(requestedId);
+      }
+      if (!requested.isFull()) {
+        return requested;
+      }
+      console.log(`Room ${requestedId} is full, placing player elsewhere`);
+    }
+    
+    // Otherwise fill the least busy room that has space
+    let best: GameRoom | null = null;
+    for (const room of this.rooms.values()) {
+      if (room.isFull()) continue;
+      if (!best || room.getPlayerCount() < best.getPlayerCount()) {
+        best = room;
+      }
+    }
+    
+    return best || this.createRoom(this.generateRoomId());
+  }
+  
+  private generateRoomId(): string {
+    let id: string;
+    do {
+      id = `room-${this.nextRoomNumber++}`;
+    } while (this.rooms.has(id));
+    return id;
+  }
+}
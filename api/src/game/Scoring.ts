@@ -0,0 +1,77 @@
+import { Player } from './entities/Player';
+
+// Leaderboard scoring. A ship's score counts everything it has done since it
+// joined, across all its lives, so sinking costs future points rather than
+// past ones. Bounties claimed (see Bounties.ts) are added on top.
+
+// Points for each thing a ship does
+export const SCORE_WEIGHTS = {
+  kill: 100, // Per ship sunk
+  damage: 20, // Per HP of damage dealt to other ships
+  wood: 5, // Per wood collected
+  peakHp: 10, // Per HP at the ship's biggest
+  survivalSecond: 1 // Per second of its longest life
+};
+
+// Ships on the leaderboard broadcast to everyone
+export const LEADERBOARD_SIZE = 10;
+
+// One line of the leaderboard (`game:leaderboard`)
+export interface LeaderboardEntry {
+  id: string;
+  name: string;
+  score: number;
+  kills: number;
+}
+
+// A player's own standing and what it's made of (`player:stats`)
+export interface PlayerStats {
+  score: number;
+  rank: number; // 1 = top of the leaderboard
+  players: number; // Ships ranked
+  kills: number;
+  deaths: number;
+  damageDealt: number;
+  woodCollected: number;
+  peakHp: number;
+  longestLifeMs: number; // Including the current life
+  hp: number;
+  cannonCount: number;
+}
+
+export function getScore(player: Player): number {
+  return Math.round(
+    player.kills * SCORE_WEIGHTS.kill +
+    player.damageDealt * SCORE_WEIGHTS.damage +
+    player.woodCollected * SCORE_WEIGHTS.wood +
+    player.peakHp * SCORE_WEIGHTS.peakHp +
+    player.getLongestLifeMs() / 1000 * SCORE_WEIGHTS.survivalSecond +
+    player.bountyScore
+  );
+}
+
+// Every ship with its score, best first (ties go to whoever has more kills)
+export function rankPlayers(players: Iterable<Player>): Array<{ player: Player, score: number }> {
+  return Array.from(players, player => ({ player, score: getScore(player) }))
+    .sort((a, b) => b.score - a.score || b.player.kills - a.player.kills);
+}
+
+export function toLeaderboardEntry({ player, score }: { player: Player, score: number }): LeaderboardEntry {
+  return { id: player.id, name: player.name, score, kills: player.kills };
+}
+
+export function getPlayerStats(player: Player, score: number, rank: number, players: number): PlayerStats {
+  return {
+    score,
+    rank,
+    players,
+    kills: player.kills,
+    deaths: player.deaths,
+    damageDealt: Math.round(player.damageDealt * 10) / 10,
+    woodCollected: player.woodCollected,
+    peakHp: Math.round(player.peakHp * 10) / 10,
+    longestLifeMs: Math.round(player.getLongestLifeMs()),
+    hp: player.hp,
+    cannonCount: player.cannons
+  };
+}
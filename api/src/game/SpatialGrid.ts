@@ -0,0 +1,161 @@
+import { Entity } from './entities/Entity';
+
+// Uniform grid spatial index. Entities are bucketed into every cell their
+// bounding square overlaps, so radius queries only have to look at nearby cells
+// instead of scanning whole entity collections.
+export class SpatialGrid<T extends Entity> {
+  private cellSize: number;
+  private cells: Map<number, Set<T>> = new Map();
+  
+  // Cell keys each entity is currently registered in, plus the bounds used to compute them
+  private entityCells: Map<string, { keys: number[], minX: number, minY: number, maxX: number, maxY: number }> = new Map();
+  
+  constructor(cellSize: number = 250) {
+    this.cellSize = cellSize;
+  }
+  
+  // Pack two cell coordinates into a single numeric key (supports +/- 32767 cells per axis)
+  private cellKey(cellX: number, cellY: number): number {
+    return ((cellX + 32768) << 16) | (cellY + 32768);
+  }
+  
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+  
+  // Register an entity with the grid
+  insert(entity: T): void {
+    if (this.entityCells.has(entity.id)) {
+      this.update(entity);
+      return;
+    }
+    
+    const minX = this.toCell(entity.position.x - entity.size);
+    const minY = this.toCell(entity.position.y - entity.size);
+    const maxX = this.toCell(entity.position.x + entity.size);
+    const maxY = this.toCell(entity.position.y + entity.size);
+    const keys: number[] = [];
+    
+    for (let cellX = minX; cellX <= maxX; cellX++) {
+      for (let cellY = minY; cellY <= maxY; cellY++) {
+        const key = this.cellKey(cellX, cellY);
+        let cell = this.cells.get(key);
+        if (!cell) {
+          cell = new Set();
+          this.cells.set(key, cell);
+        }
+        cell.add(entity);
+        keys.push(key);
+      }
+    }
+    
+    this.entityCells.set(entity.id, { keys, minX, minY, maxX, maxY });
+  }
+  
+  // Remove an entity from the grid
+  remove(entity: T): void {
+    const entry = this.entityCells.get(entity.id);
+    if (!entry) return;
+    
+    for (const key of entry.keys) {
+      const cell = this.cells.get(key);
+      if (!cell) continue;
+      
+      cell.delete(entity);
+      if (cell.size === 0) {
+        this.cells.delete(key);
+      }
+    }
+    
+    this.entityCells.delete(entity.id);
+  }
+  
+  // Re-bucket an entity after it moved or changed size.
+  // Cheap when the entity stays within the same cells, which is the common case.
+  update(entity: T): void {
+    const entry = this.entityCells.get(entity.id);
+    if (!entry) {
+      this.insert(entity);
+      return;
+    }
+    
+    const minX = this.toCell(entity.position.x - entity.size);
+    const minY = this.toCell(entity.position.y - entity.size);
+    const maxX = this.toCell(entity.position.x + entity.size);
+    const maxY = this.toCell(entity.position.y + entity.size);
+    
+    if (minX === entry.minX && minY === entry.minY && maxX === entry.maxX && maxY === entry.maxY) {
+      return;
+    }
+    
+    this.remove(entity);
+    this.insert(entity);
+  }
+  
+  // Remove every entity from the grid
+  clear(): void {
+    this.cells.clear();
+    this.entityCells.clear();
+  }
+  
+  // Number of entities registered
+  get size(): number {
+    return this.entityCells.size;
+  }
+  
+  // Get entities whose bounding circle comes within `radius` of a point.
+  // Matches the `distance < radius + entity.size` checks used throughout World.
+  queryRadius(x: number, y: number, radius: number): T[] {
+    const results: T[] = [];
+    this.forEachInRadius(x, y, radius, entity => {
+      results.push(entity);
+    });
+    return results;
+  }
+  
+  // Check whether any entity comes within `radius` of a point
+  anyInRadius(x: number, y: number, radius: number, filter?: (entity: T) => boolean): boolean {
+    let found = false;
+    this.forEachInRadius(x, y, radius, entity => {
+      if (!filter || filter(entity)) {
+        found = true;
+        return false; // Stop iterating
+      }
+    });
+    return found;
+  }
+  
+  // Visit entities within `radius` of a point. Returning false from the callback stops iteration.
+  forEachInRadius(x: number, y: number, radius: number, callback: (entity: T) => boolean | void): void {
+    const minX = this.toCell(x - radius);
+    const minY = this.toCell(y - radius);
+    const maxX = this.toCell(x + radius);
+    const maxY = this.toCell(y + radius);
+    
+    // Only entities spanning several cells need de-duplicating
+    const seen = new Set<string>();
+    const singleCell = minX === maxX && minY === maxY;
+    
+    for (let cellX = minX; cellX <= maxX; cellX++) {
+      for (let cellY = minY; cellY <= maxY; cellY++) {
+        const cell = this.cells.get(this.cellKey(cellX, cellY));
+        if (!cell) continue;
+        
+        for (const entity of cell) {
+          if (!singleCell) {
+            if (seen.has(entity.id)) continue;
+            seen.add(entity.id);
+          }
+          
+          const dx = entity.position.x - x;
+          const dy = entity.position.y - y;
+          const reach = radius + entity.size;
+          
+          if (dx * dx + dy * dy < reach * reach) {
+            if (callback(entity) === false) return;
+          }
+        }
+      }
+    }
+  }
+}
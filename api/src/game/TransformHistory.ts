@@ -0,0 +1,80 @@
+import { Entity } from './entities/Entity';
+
+// Where an entity was at a point in simulated time
+export interface HistoricalTransform {
+  x: number;
+  y: number;
+  size: number;
+}
+
+interface TimedTransform extends HistoricalTransform {
+  time: number;
+}
+
+// Short rolling record of entity positions, used to rewind targets to the moment
+// a shooter saw them (lag compensation). Times are World simulation milliseconds.
+export class TransformHistory {
+  private duration: number;
+  private histories: Map<string, TimedTransform[]> = new Map();
+  
+  constructor(duration: number) {
+    this.duration = duration;
+  }
+  
+  // Change how much history is kept (ms)
+  setDuration(duration: number): void {
+    this.duration = Math.max(0, duration);
+  }
+  
+  // Record an entity's current transform and forget anything older than the window
+  record(entity: Entity, time: number): void {
+    let history = this.histories.get(entity.id);
+    if (!history) {
+      history = [];
+      this.histories.set(entity.id, history);
+    }
+    
+    history.push({ time, x: entity.position.x, y: entity.position.y, size: entity.size });
+    
+    // Keep one sample older than the window so its start can still be interpolated
+    while (history.length > 2 && history[1].time < time - this.duration) {
+      history.shift();
+    }
+  }
+  
+  // Transform of an entity at a past time, interpolated between recorded ticks.
+  // Times before the oldest sample clamp to it; returns null for unknown entities.
+  sampleAt(id: string, time: number): HistoricalTransform | null {
+    const history = this.histories.get(id);
+    if (!history || history.length === 0) return null;
+    
+    if (time <= history[0].time) {
+      return { x: history[0].x, y: history[0].y, size: history[0].size };
+    }
+    
+    for (let i = history.length - 1; i > 0; i--) {
+      const from = history[i - 1];
+      const to = history[i];
+      if (time >= from.time) {
+        const t = to.time > from.time ? Math.min(1, (time - from.time) / (to.time - from.time)) : 1;
+        return {
+          x: from.x + (to.x - from.x) * t,
+          y: from.y + (to.y - from.y) * t,
+          size: from.size + (to.size - from.size) * t
+        };
+      }
+    }
+    
+    const newest = history[history.length - 1];
+    return { x: newest.x, y: newest.y, size: newest.size };
+  }
+  
+  // Forget an entity's history (it left, or teleported and must not be hit where it was)
+  remove(id: string): void {
+    this.histories.delete(id);
+  }
+  
+  clear(): void {
+    this.histories.clear();
+  }
+}
@@ -0,0 +1,76 @@
+import { Random } from './Random';
+
+// Upgrades a player can pick from a chest. Each stacks up to its max level and
+// all of them are lost on death.
+export type UpgradeType = 'reload' | 'range' | 'damage' | 'armor' | 'turning';
+
+export interface UpgradeDefinition {
+  type: UpgradeType;
+  name: string;
+  description: string;
+  perLevel: number; // Effect of each level (see Player for how it's applied)
+  maxLevel: number;
+}
+
+export const UPGRADES: UpgradeDefinition[] = [
+  { type: 'reload', name: 'Quick Reload', description: '12% faster cannon reload', perLevel: 0.12, maxLevel: 3 },
+  { type: 'range', name: 'Long Guns', description: '20% longer cannonball range', perLevel: 0.2, maxLevel: 3 },
+  { type: 'damage', name: 'Heavy Shot', description: '+0.25 damage per cannonball', perLevel: 0.25, maxLevel: 3 },
+  { type: 'armor', name: 'Iron Plating', description: '10% less damage taken', perLevel: 0.1, maxLevel: 3 },
+  { type: 'turning', name: 'Fine Rudder', description: '12% faster turning', perLevel: 0.12, maxLevel: 3 }
+];
+
+// How many upgrades a chest offers to choose from
+export const UPGRADE_CHOICES = 3;
+
+export type UpgradeLevels = Record<UpgradeType, number>;
+
+// One upgrade and the level a player has it at, as sent to their client
+export interface UpgradeStatus {
+  type: UpgradeType;
+  name: string;
+  description: string;
+  level: number;
+  maxLevel: number;
+}
+
+// An offer waiting for the player's pick (`player:upgrade_offer`)
+export interface UpgradeOffer {
+  id: number;
+  options: UpgradeStatus[];
+}
+
+export function getUpgrade(type: UpgradeType): UpgradeDefinition {
+  return UPGRADES.find(upgrade => upgrade.type === type)!;
+}
+
+export function createUpgradeLevels(): UpgradeLevels {
+  return { reload: 0, range: 0, damage: 0, armor: 0, turning: 0 };
+}
+
+export function getUpgradeStatus(type: UpgradeType, levels: UpgradeLevels): UpgradeStatus {
+  const upgrade = getUpgrade(type);
+  return {
+    type,
+    name: upgrade.name,
+    description: upgrade.description,
+    level: levels[type],
+    maxLevel: upgrade.maxLevel
+  };
+}
+
+// Pick up to UPGRADE_CHOICES different upgrades that aren't maxed out yet
+export function rollUpgradeChoices(levels: UpgradeLevels, random: Random): UpgradeType[] {
+  const available = UPGRADES
+    .filter(upgrade => levels[upgrade.type] < upgrade.maxLevel)
+    .map(upgrade => upgrade.type);
+  
+  // Partial Fisher-Yates shuffle
+  const count = Math.min(UPGRADE_CHOICES, available.length);
+  for (let i = 0; i < count; i++) {
+    const j = random.int(i, available.length - 1);
+    [available[i], available[j]] = [available[j], available[i]];
+  }
+  
+  return available.slice(0, count);
+}
@@ -0,0 +1,122 @@
+import { Vector2, WindSnapshot } from './types';
+import { Random } from './Random';
+
+// Wind over the whole ocean. A global direction and strength drift slowly towards
+// new targets picked every minute or so, and a coarse grid of regions bends and
+// scales it locally (fixed per world seed) so different waters sail differently.
+//
+// Sampling is mirrored in client/src/game/environment/WindField.ts, which rebuilds
+// the same field from serialize() to predict ship movement and cannonball drift.
+export class Wind {
+  // Regions per side of the world
+  static readonly REGION_GRID: number = 4;
+  
+  // Largest angle (radians) a region bends the wind by, and strength scale range
+  private static readonly MAX_REGION_BEND: number = 0.5;
+  private static readonly MIN_REGION_SCALE: number = 0.6;
+  private static readonly MAX_REGION_SCALE: number = 1.4;
+  
+  // How quickly the global wind follows its target
+  private static readonly TURN_RATE: number = 0.05; // Radians per second
+  private static readonly STRENGTH_RATE: number = 0.02; // Strength per second
+  
+  // Seconds between picking new targets
+  private static readonly MIN_SHIFT_INTERVAL: number = 30;
+  private static readonly MAX_SHIFT_INTERVAL: number = 90;
+  
+  private random: Random;
+  private width: number;
+  private height: number;
+  
+  private angle: number; // Direction the wind blows towards (radians)
+  private strength: number; // 0 = calm, 1 = gale
+  private targetAngle: number;
+  private targetStrength: number;
+  private secondsToShift: number;
+  
+  private regionBends: number[] = [];
+  private regionScales: number[] = [];
+  
+  constructor(random: Random, width: number, height: number) {
+    this.random = random;
+    this.width = width;
+    this.height = height;
+    
+    this.angle = random.next() * Math.PI * 2;
+    this.strength = random.range(0.3, 0.8);
+    this.targetAngle = this.angle;
+    this.targetStrength = this.strength;
+    this.secondsToShift = random.range(Wind.MIN_SHIFT_INTERVAL, Wind.MAX_SHIFT_INTERVAL);
+    
+    for (let i = 0; i < Wind.REGION_GRID * Wind.REGION_GRID; i++) {
+      this.regionBends.push(random.range(-Wind.MAX_REGION_BEND, Wind.MAX_REGION_BEND));
+      this.regionScales.push(random.range(Wind.MIN_REGION_SCALE, Wind.MAX_REGION_SCALE));
+    }
+  }
+  
+  update(deltaTime: number): void {
+    const deltaSeconds = deltaTime / 1000;
+    
+    // Pick a new direction (within a quarter turn) and strength every so often
+    this.secondsToShift -= deltaSeconds;
+    if (this.secondsToShift <= 0) {
+      this.targetAngle = this.angle + this.random.range(-Math.PI / 2, Math.PI / 2);
+      this.targetStrength = this.random.range(0.2, 1);
+      this.secondsToShift = this.random.range(Wind.MIN_SHIFT_INTERVAL, Wind.MAX_SHIFT_INTERVAL);
+    }
+    
+    // Ease towards the targets
+    const maxTurn = Wind.TURN_RATE * deltaSeconds;
+    const angleDiff = this.targetAngle - this.angle;
+    this.angle += Math.max(-maxTurn, Math.min(angleDiff, maxTurn));
+    
+    // Keep the angle in [0, 2PI), moving the target along with it
+    const wrap = Math.floor(this.angle / (Math.PI * 2)) * Math.PI * 2;
+    this.angle -= wrap;
+    this.targetAngle -= wrap;
+    
+    const maxChange = Wind.STRENGTH_RATE * deltaSeconds;
+    const strengthDiff = this.targetStrength - this.strength;
+    this.strength += Math.max(-maxChange, Math.min(strengthDiff, maxChange));
+  }
+  
+  // Wind at a position, as a vector whose length is the local strength (at most 1)
+  sampleAt(x: number, y: number): Vector2 {
+    const grid = Wind.REGION_GRID;
+    
+    // Blend the four nearest region centres
+    const gx = Math.max(0, Math.min(grid - 1, x / this.width * grid - 0.5));
+    const gy = Math.max(0, Math.min(grid - 1, y / this.height * grid - 0.5));
+    const col = Math.min(Math.floor(gx), grid - 2);
+    const row = Math.min(Math.floor(gy), grid - 2);
+    const tx = gx - col;
+    const ty = gy - row;
+    
+    const blend = (values: number[]): number => {
+      const top = values[row * grid + col] * (1 - tx) + values[row * grid + col + 1] * tx;
+      const bottom = values[(row + 1) * grid + col] * (1 - tx) + values[(row + 1) * grid + col + 1] * tx;
+      return top * (1 - ty) + bottom * ty;
+    };
+    
+    const angle = this.angle + blend(this.regionBends);
+    const strength = Math.min(1, this.strength * blend(this.regionScales));
+    return { x: Math.cos(angle) * strength, y: Math.sin(angle) * strength };
+  }
+  
+  // Everything a client needs to rebuild the field
+  serialize(): WindSnapshot {
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    
+    return {
+      angle: round(this.angle),
+      strength: round(this.strength),
+      regions: {
+        width: this.width,
+        height: this.height,
+        grid: Wind.REGION_GRID,
+        bends: this.regionBends.map(round),
+        scales: this.regionScales.map(round)
+      }
+    };
+  }
+}
@@ -1,62 +1,161 @@
-import { v4 as uuidv4 } from 'uuid';
-import { Vector2, VisibleEntities } from './types';
+import { Vector2, VisibleEntities, GameConfiguration, BroadsideSide } from './types';
+import { Entity } from './entities/Entity';
 import { Player } from './entities/Player';
 import { Resource, ResourceType } from './entities/Resource';
 import { Rock } from './entities/Rock';
 import { Projectile } from './entities/Projectile';
+import { Zone } from './entities/Zone';
+import { SpatialGrid } from './SpatialGrid';
+import { TransformHistory } from './TransformHistory';
+import { Random } from './Random';
+import { Wind } from './Wind';
+import { MAX_CLASS_SPEED, SHIP_CLASSES } from './ShipClasses';
+import { AmmoDefinition, AmmoType, getAmmo } from './Ammo';
+import { UPGRADES, UpgradeType, getUpgradeStatus, rollUpgradeChoices } from './Upgrades';
+import { pickRockVariant, rollLoot } from './RockVariants';
+import { NpcBrain, NpcDifficulty, getNpcName } from './Npc';
+import { ALLIANCE_REFUSAL_MESSAGES, Alliance, AllianceManager, AllianceStatus } from './Alliances';
+import { GameMode, GameModeType, SandboxMode, Scoreboard } from './modes/GameMode';
+import { createGameMode } from './modes/GameModes';
+import { NetIdRegistry } from './protocol/NetIdRegistry';
+import { rankPlayers } from './Scoring';
+import { Bounty, BountyBoard } from './Bounties';
 import { Server } from 'socket.io';
 
+// One cannon of a broadside, waiting for its turn in a rolling broadside
+interface CannonShot {
+  playerId: string;
+  side: BroadsideSide;
+  cannon: number; // Position along the side, counted from the stern
+  cannonCount: number; // Cannons on that side when the broadside was fired
+  ammo: AmmoDefinition;
+  rewindMs: number;
+  fireAt: number; // Simulation time (ms)
+}
+
+// What sank a ship, for the killfeed
+export type DeathCause = 'cannon' | 'ram' | 'storm';
+
 export class World {
   width: number;
   height: number;
   private io: Server | null = null;
   
+  // Seeded PRNG shared by all simulation code (spawns, loot, player spawn angles)
+  readonly random: Random;
+  
+  // Wind over the ocean; pushes ships and cannonballs
+  readonly wind: Wind;
+  
   // Entity collections
   private players: Map<string, Player> = new Map();
   private resources: Map<string, Resource> = new Map();
   private rocks: Map<string, Rock> = new Map();
+  private regrowingRocks: Set<Rock> = new Set(); // Damaged rocks that heal over time (mossy rocks)
   private projectiles: Map<string, Projectile> = new Map();
+  private zones: Map<string, Zone> = new Map(); // Control zones of the game mode, if it has any
+  
+  // Spatial indexes used for all visibility, spawn-safety and collision queries
+  private static readonly GRID_CELL_SIZE: number = 250;
+  
+  // Fastest a ship can move (px/s); bounds how far a rewound target may be from its current position
+  private static readonly MAX_SHIP_SPEED: number = MAX_CLASS_SPEED * (1 + Player.WIND_EFFECT);
+  
+  // Ramming tuning
+  private static readonly RAM_MIN_SPEED: number = 60; // Closing speed (px/s) below which ships just bump
+  private static readonly RAM_DAMAGE_PER_SPEED: number = 0.01; // Damage per px/s of closing speed
+  private static readonly RAM_BOW_FACTOR: number = 0.4; // Damage taken hitting bow-first, relative to side-on
+  private static readonly RAM_MIN_SIZE_FACTOR: number = 0.5; // Limits on how much relative size scales damage
+  private static readonly RAM_MAX_SIZE_FACTOR: number = 2;
+  private static readonly RAM_RESTITUTION: number = 0.5; // How bouncy collisions are (0 = ships stop dead)
+  
+  // Short numeric ids used by the binary snapshot protocol
+  private netIds: NetIdRegistry = new NetIdRegistry();
+  private playerGrid: SpatialGrid<Player> = new SpatialGrid(World.GRID_CELL_SIZE);
+  private resourceGrid: SpatialGrid<Resource> = new SpatialGrid(World.GRID_CELL_SIZE);
+  private rockGrid: SpatialGrid<Rock> = new SpatialGrid(World.GRID_CELL_SIZE);
+  private projectileGrid: SpatialGrid<Projectile> = new SpatialGrid(World.GRID_CELL_SIZE);
   
-  // Resource spawning
-  private woodSpawnInterval: NodeJS.Timeout | null = null;
-  private chestSpawnInterval: NodeJS.Timeout | null = null;
-  private rockSpawnInterval: NodeJS.Timeout | null = null;
+  // Resource spawning runs on tick counts rather than timers so it stays deterministic
+  private spawningEnabled: boolean = false;
+  private tickCount: number = 0;
+  private simulationTime: number = 0; // Simulated milliseconds since the world was created
+  
+  // Lag compensation: recent ship positions, so shots can be checked against
+  // where the shooter saw their targets rather than where they are now
+  private maxRewindMs: number = 200;
+  private shipHistory: TransformHistory = new TransformHistory(this.maxRewindMs);
+  
+  // Delay between neighbouring cannons of a broadside (0 = all at once)
+  private cannonStaggerMs: number = 0;
+  private pendingCannonShots: CannonShot[] = [];
   
   // Game balance configuration
   private initialRockCount: number = 1000;
   private maxRockCount: number = 3000;
   private woodSpawnQuantity: number = 50;
-  private chestSpawnQuantity: number = 0; // Set to 0 to disable chest spawning
+  private chestSpawnQuantity: number = 2; // Set to 0 to disable chest spawning
   private rockSpawnQuantity: number = 1;
   private woodSpawnIntervalMs: number = 5000; // 5 seconds
   private chestSpawnIntervalMs: number = 20000; // 20 seconds
   private rockSpawnIntervalMs: number = 30000; // 30 seconds
   private maxWoodCount: number = 1000; // Maximum number of wood resources allowed on map
+  private maxChestCount: number = 20; // Chests are rarer: each one offers an upgrade
+  private ammoSpawnQuantity: number = 5;
+  private ammoSpawnIntervalMs: number = 10000; // 10 seconds
+  private maxAmmoCount: number = 100; // Ammo crates on the map at once
+  private cannonUnlockHpStep: number | null = null; // Overrides every class's HP per extra pair of cannons (balance experiments)
+  
+  // Ids for chest upgrade offers, so a late pick can't answer a newer offer
+  private nextUpgradeOfferId: number = 1;
+  
+  // Computer-controlled ships, by player id
+  private npcs: Map<string, NpcBrain> = new Map();
+  private npcCount: number = 0;
+  private npcDifficulty: NpcDifficulty = 'normal';
+  private nextNpcNumber: number = 1;
   
-  constructor(width: number, height: number, io?: Server) {
+  // Who is allied with whom (or which team each ship is on in team mode)
+  private alliances: AllianceManager = new AllianceManager();
+  private bounties: BountyBoard = new BountyBoard();
+  
+  // Rules on top of the sandbox (matches, objectives, scores)
+  private mode: GameMode = new SandboxMode(this);
+  
+  constructor(width: number, height: number, io?: Server, seed?: number) {
     this.width = width;
     this.height = height;
     this.io = io || null;
+    this.random = new Random(seed);
+    
+    console.log(`World seed: ${this.random.getSeed()}`);
     
     // Create initial world setup with rocks
     this.generateInitialRocks(this.initialRockCount);
     
     // Add initial resources scattered across the map - only wood, no chests
     this.generateInitialResources(50, 0); // 50 wood, 0 chests
+    
+    // Created after the initial layout so a seed still produces the same map
+    this.wind = new Wind(this.random, width, height);
   }
   
   // Generate initial rocks
   private generateInitialRocks(count: number): void {
     for (let i = 0; i < count; i++) {
-      const position = this.getRandomPosition();
-      const size = 20 + Math.random() * 30; // Random size between 20-50
-      const hp = Math.floor(size / 10); // HP based on size
-      
-      const rock = new Rock(uuidv4(), position, size, hp);
-      this.rocks.set(rock.id, rock);
+      this.createRock(this.getRandomPosition());
     }
   }
   
+  // Create a rock of a random size and variant
+  private createRock(position: Vector2): void {
+    const size = 20 + this.random.next() * 30; // Random size between 20-50
+    const variant = pickRockVariant(this.random);
+    const hp = Math.max(1, Math.floor(size / 10 * variant.hpMultiplier)); // HP based on size
+    
+    this.addRock(new Rock(this.random.uuid(), position, size, hp, variant.type));
+  }
+  
   // Generate initial resources
   private generateInitialResources(woodCount: number, chestCount: number): void {
     console.log(`Generating initial resources: ${woodCount} wood, ${chestCount} chests`);
@@ -71,13 +170,13 @@ export class World {
       }
       
       const resource = new Resource(
-        uuidv4(),
+        this.random.uuid(),
         position,
         'wood',
         1
       );
       
-      this.resources.set(resource.id, resource);
+      this.addResource(resource);
     }
     
     // Spawn chests
@@ -90,13 +189,13 @@ export class World {
       }
       
       const resource = new Resource(
-        uuidv4(),
+        this.random.uuid(),
         position,
         'chest',
         1
       );
       
-      this.resources.set(resource.id, resource);
+      this.addResource(resource);
     }
     
     console.log(`Initial resources generated: ${this.resources.size} total resources`);
@@ -105,8 +204,8 @@ export class World {
   // Get a random position in the world
   private getRandomPosition(): Vector2 {
     return {
-      x: Math.random() * this.width,
-      y: Math.random() * this.height
+      x: this.random.next() * this.width,
+      y: this.random.next() * this.height
     };
   }
   
@@ -117,8 +216,8 @@ export class World {
     // Try several positions until we find a safe one
     for (let attempts = 0; attempts < 10; attempts++) {
       const position = {
-        x: margin + Math.random() * (this.width - margin * 2),
-        y: margin + Math.random() * (this.height - margin * 2)
+        x: margin + this.random.next() * (this.width - margin * 2),
+        y: margin + this.random.next() * (this.height - margin * 2)
       };
       
       // Check if position is far enough from all rocks and players
@@ -129,50 +228,121 @@ export class World {
     
     // If we couldn't find a safe spot, return a position near the center
     return {
-      x: this.width / 2 + (Math.random() * 200 - 100),
-      y: this.height / 2 + (Math.random() * 200 - 100)
+      x: this.width / 2 + (this.random.next() * 200 - 100),
+      y: this.height / 2 + (this.random.next() * 200 - 100)
     };
   }
   
+  // Get a random safe position within `radius` of a point (e.g. a home port),
+  // falling back to the point itself
+  getSafePositionNear(center: Vector2, radius: number): Vector2 {
+    const margin = 100; // Keep away from edges
+    
+    for (let attempts = 0; attempts < 10; attempts++) {
+      const angle = this.random.next() * Math.PI * 2;
+      const distance = Math.sqrt(this.random.next()) * radius; // Spread evenly over the circle
+      const position = {
+        x: Math.max(margin, Math.min(this.width - margin, center.x + Math.cos(angle) * distance)),
+        y: Math.max(margin, Math.min(this.height - margin, center.y + Math.sin(angle) * distance))
+      };
+      
+      if (this.isPositionSafe(position, 100)) {
+        return position;
+      }
+    }
+    
+    return { ...center };
+  }
+  
   // Check if a position is safe (no entities nearby)
   private isPositionSafe(position: Vector2, safeRadius: number): boolean {
     // Check distance to rocks
-    for (const rock of this.rocks.values()) {
-      const dx = position.x - rock.position.x;
-      const dy = position.y - rock.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      if (distance < safeRadius + rock.size) {
-        return false; // Too close to a rock
-      }
+    if (this.rockGrid.anyInRadius(position.x, position.y, safeRadius)) {
+      return false; // Too close to a rock
     }
     
     // Check distance to players
-    for (const player of this.players.values()) {
-      const dx = position.x - player.position.x;
-      const dy = position.y - player.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      if (distance < safeRadius + player.size) {
-        return false; // Too close to a player
-      }
+    if (this.playerGrid.anyInRadius(position.x, position.y, safeRadius)) {
+      return false; // Too close to a player
     }
     
     return true; // Position is safe
   }
   
+  // Entity registration helpers - keep collections and spatial indexes in sync
+  private addRock(rock: Rock): void {
+    rock.netId = this.netIds.allocate();
+    this.rocks.set(rock.id, rock);
+    this.rockGrid.insert(rock);
+  }
+  
+  private removeRock(rock: Rock): void {
+    this.netIds.release(rock.netId);
+    this.rocks.delete(rock.id);
+    this.rockGrid.remove(rock);
+    this.regrowingRocks.delete(rock);
+  }
+  
+  private addResource(resource: Resource): void {
+    resource.netId = this.netIds.allocate();
+    this.resources.set(resource.id, resource);
+    this.resourceGrid.insert(resource);
+  }
+  
+  private removeResource(resource: Resource): void {
+    this.netIds.release(resource.netId);
+    this.resources.delete(resource.id);
+    this.resourceGrid.remove(resource);
+  }
+  
+  private addProjectile(projectile: Projectile): void {
+    projectile.netId = this.netIds.allocate();
+    this.projectiles.set(projectile.id, projectile);
+    this.projectileGrid.insert(projectile);
+  }
+  
+  private removeProjectile(projectile: Projectile): void {
+    this.netIds.release(projectile.netId);
+    this.projectiles.delete(projectile.id);
+    this.projectileGrid.remove(projectile);
+  }
+  
+  // Zones are few and large, so they aren't indexed and every client sees all of them
+  addZone(zone: Zone): void {
+    zone.netId = this.netIds.allocate();
+    this.zones.set(zone.id, zone);
+  }
+  
+  getZones(): Zone[] {
+    return Array.from(this.zones.values());
+  }
+  
   // Add a player to the world
   addPlayer(player: Player): void {
     console.log(`World: Adding player ${player.id.substring(0, 8)} at position (${Math.floor(player.position.x)}, ${Math.floor(player.position.y)})`);
+    player.netId = this.netIds.allocate();
+    player.cannonUnlockHpStep = this.cannonUnlockHpStep;
     this.players.set(player.id, player);
+    this.playerGrid.insert(player);
     
-    // Initialize last known entities for this player
-    player.lastKnownEntities = {
-      ships: [],
-      resources: [],
-      rocks: [],
-      projectiles: []
-    };
+    // Nothing has been sent to this player yet
+    player.knownEntityVersions = new Map();
+    player.lastSentVersion = -1;
+    this.sendAmmo(player);
+    
+    // Team mode puts every ship on a team as it joins
+    const team = this.alliances.assignTeam(player.id);
+    if (team) {
+      this.sendAllianceToMembers(team);
+    }
+    
+    // The game mode may want the ship somewhere else (e.g. its team's home port)
+    const spawn = this.mode.getSpawnPosition(player);
+    if (spawn) {
+      player.position = spawn;
+      this.playerGrid.update(player);
+    }
+    this.mode.onPlayerAdded(player);
     
     // Log current player count
     console.log(`World now has ${this.players.size} players`);
@@ -193,6 +363,22 @@ export class World {
       
       // Remove from players collection
       this.players.delete(playerId);
+      this.playerGrid.remove(player);
+      this.shipHistory.remove(playerId);
+      this.cancelCannonShots(playerId);
+      this.netIds.release(player.netId);
+      this.mode.onPlayerRemoved(player);
+      
+      // Tell allies they've lost a member (the alliance may disband, so note them first)
+      const alliance = this.alliances.getAlliance(playerId);
+      const allies = alliance ? Array.from(alliance.members).filter(id => id !== playerId) : [];
+      this.alliances.removePlayer(playerId);
+      if (alliance) {
+        for (const allyId of allies) {
+          this.sendAlliance(allyId);
+          this.emitToPlayer(allyId, 'alliance:notice', `${player.name} left the ${alliance.name}`);
+        }
+      }
       
       // Log remaining players
       console.log(`World now has ${this.players.size} players`);
@@ -203,23 +389,61 @@ export class World {
         });
       }
       
-      // Update lastKnownEntities for all remaining players to remove the disconnected player
+      // Forget the disconnected ship in every remaining player's known state
+      // (clients are told about the removal through entity:removed)
       for (const remainingPlayer of this.players.values()) {
-        if (remainingPlayer.lastKnownEntities) {
-          // Filter out the disconnected player from ships list
-          remainingPlayer.lastKnownEntities.ships = 
-            remainingPlayer.lastKnownEntities.ships.filter(ship => ship.id !== playerId);
-        }
+        remainingPlayer.knownEntityVersions.delete(playerId);
       }
     }
   }
   
-  // Create projectiles for a player's cannon fire
-  createProjectiles(player: Player): void {
-    if (!player.canFire()) return;
+  // Fire one or both broadsides of a player's cannons
+  // `rewindMs` is how far behind the present the shooter's view of other ships was;
+  // hits from these projectiles are checked against ships as they were back then.
+  // Each side reloads separately, and with a cannon stagger set the cannons on a
+  // side go off one after another from bow to stern (a rolling broadside).
+  createProjectiles(player: Player, rewindMs: number = 0, sides: BroadsideSide[] = Player.BROADSIDES): void {
+    if (player.sunk) return;
     
-    // Number of cannons per side
-    const cannonCount = player.cannons / 2;
+    const rewind = Math.max(0, Math.min(rewindMs, this.maxRewindMs));
+    let usedSpecialAmmo = false;
+    
+    for (const side of sides) {
+      if (!player.canFire(side)) continue;
+      
+      // Fire whatever is loaded; special ammo is used up one broadside at a time
+      const ammo = player.useAmmo();
+      usedSpecialAmmo = usedSpecialAmmo || ammo.capacity !== null;
+      
+      // Number of cannons per side
+      const cannonCount = player.cannons / 2;
+      
+      for (let i = 0; i < cannonCount; i++) {
+        const shot: CannonShot = { playerId: player.id, side, cannon: i, cannonCount, ammo, rewindMs: rewind, fireAt: 0 };
+        
+        // Cannons are numbered from the stern, so the bow one goes first
+        const delay = (cannonCount - 1 - i) * this.cannonStaggerMs;
+        if (delay <= 0) {
+          this.fireCannon(player, shot);
+        } else {
+          shot.fireAt = this.simulationTime + delay;
+          this.pendingCannonShots.push(shot);
+        }
+      }
+      
+      // Start this side's cooldown and tell the player how long it will take
+      player.startCooldown(side, ammo.cooldownMultiplier);
+      this.emitToPlayer(player.id, 'player:reload', { side, durationMs: player.cannonCooldowns[side] });
+    }
+    
+    if (usedSpecialAmmo) {
+      this.sendAmmo(player);
+    }
+  }
+  
+  // Fire a single cannon from where it is on the ship right now
+  private fireCannon(player: Player, shot: CannonShot): void {
+    const { ammo, cannon, cannonCount } = shot;
     
     // Calculate ship dimensions based on player size
     const shipWidth = player.size;        // Width is now the base size
@@ -228,46 +452,69 @@ export class World {
     // Distance from ship's side where projectiles spawn
     const spawnOffset = shipWidth * 0.6;   // Spawn slightly away from the ship
     
-    // Create projectiles on each side
-    for (let side = 0; side < 2; side++) {
-      const sideAngle = side === 0 ? Math.PI / 2 : -Math.PI / 2; // Left or right
+    // Starboard is clockwise from the heading (y points down)
+    const sideAngle = shot.side === 'starboard' ? Math.PI / 2 : -Math.PI / 2;
+    
+    // Calculate spacing between cannons to use almost full ship length
+    // Use 0.8 to leave a small margin from the edges
+    const spacing = ((cannon + 1) / (cannonCount + 1) - 0.5) * (shipHeight * 0.8);
+    
+    // Calculate spawn position
+    // First move to the side of the ship
+    const sideX = Math.cos(player.angle + sideAngle) * spawnOffset;
+    const sideY = Math.sin(player.angle + sideAngle) * spawnOffset;
+    
+    // Then offset along the ship's length
+    const offsetX = Math.cos(player.angle) * spacing;
+    const offsetY = Math.sin(player.angle) * spacing;
+    
+    const spawnX = player.position.x + sideX + offsetX;
+    const spawnY = player.position.y + sideY + offsetY;
+    
+    // Fire perpendicular to the ship side; grapeshot pellets fan out evenly around that
+    for (let pellet = 0; pellet < ammo.pellets; pellet++) {
+      const spread = ammo.pellets > 1 ? (pellet / (ammo.pellets - 1) * 2 - 1) * ammo.spread : 0;
+      const projectileAngle = player.angle + sideAngle + spread;
       
-      for (let i = 0; i < cannonCount; i++) {
-        // Calculate spacing between cannons to use almost full ship length
-        // Use 0.8 to leave a small margin from the edges
-        const spacing = ((i + 1) / (cannonCount + 1) - 0.5) * (shipHeight * 0.8);
-        
-        // Calculate spawn position
-        // First move to the side of the ship
-        const sideX = Math.cos(player.angle + sideAngle) * spawnOffset;
-        const sideY = Math.sin(player.angle + sideAngle) * spawnOffset;
-        
-        // Then offset along the ship's length
-        const offsetX = Math.cos(player.angle) * spacing;
-        const offsetY = Math.sin(player.angle) * spacing;
-        
-        const spawnX = player.position.x + sideX + offsetX;
-        const spawnY = player.position.y + sideY + offsetY;
-        
-        // Calculate projectile angle (perpendicular to ship side)
-        const projectileAngle = player.angle + sideAngle;
-        
-        // Create projectile with adjusted speed and size
-        const projectile = new Projectile(
-          uuidv4(),
-          { x: spawnX, y: spawnY },
-          projectileAngle,
-          300,  // Slightly faster speed
-          1,    // Damage
-          player.id
-        );
-        
-        this.projectiles.set(projectile.id, projectile);
-      }
+      // Create projectile at the ship class's cannonball speed (adjusted for the ammo)
+      const projectile = new Projectile(
+        this.random.uuid(),
+        { x: spawnX, y: spawnY },
+        projectileAngle,
+        player.shipClass.projectileSpeed * ammo.speedMultiplier,
+        ammo.damage * player.getProjectileDamage(),
+        player.id,
+        ammo.type
+      );
+      projectile.rewindMs = shot.rewindMs;
+      projectile.maxLifetime *= player.getProjectileRange();
+      
+      this.addProjectile(projectile);
     }
+  }
+  
+  // Fire the cannons of rolling broadsides whose turn has come
+  private firePendingCannonShots(): void {
+    if (this.pendingCannonShots.length === 0) return;
     
-    // Start cannon cooldown
-    player.startCooldown();
+    const waiting: CannonShot[] = [];
+    for (const shot of this.pendingCannonShots) {
+      if (shot.fireAt > this.simulationTime) {
+        waiting.push(shot);
+        continue;
+      }
+      
+      const player = this.players.get(shot.playerId);
+      if (player) {
+        this.fireCannon(player, shot);
+      }
+    }
+    this.pendingCannonShots = waiting;
+  }
+  
+  // Drop the rest of a player's rolling broadsides (sunk or left)
+  private cancelCannonShots(playerId: string): void {
+    this.pendingCannonShots = this.pendingCannonShots.filter(shot => shot.playerId !== playerId);
   }
   
   // Spawn a new resource
@@ -276,6 +523,12 @@ export class World {
     if (type === 'wood' && this.getWoodCount() >= this.maxWoodCount) {
       return;
     }
+    if (type === 'chest' && this.getResourceCount('chest') >= this.maxChestCount) {
+      return;
+    }
+    if (type === 'ammo' && this.getResourceCount('ammo') >= this.maxAmmoCount) {
+      return;
+    }
 
     const position = this.getRandomPosition();
     
@@ -283,48 +536,24 @@ export class World {
     // Use a smaller safe distance to be less restrictive
     const minSafeDistance = 20; // Minimum distance from players/rocks, reduced from 50
     
-    // Check distance to players
-    for (const player of this.players.values()) {
-      const dx = position.x - player.position.x;
-      const dy = position.y - player.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      if (distance < minSafeDistance + player.size) {
-        return; // Too close to a player, skip this spawn
-      }
-    }
-    
-    // Check distance to rocks with a simpler check
-    let tooCloseToRock = false;
-    for (const rock of this.rocks.values()) {
-      const dx = position.x - rock.position.x;
-      const dy = position.y - rock.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      if (distance < minSafeDistance + rock.size) {
-        tooCloseToRock = true;
-        break;
-      }
-    }
-    
-    // Skip spawn if too close to a rock
-    if (tooCloseToRock) {
+    // Skip this spawn if too close to a player or rock
+    if (!this.isPositionSafe(position, minSafeDistance)) {
       return;
     }
     
     // Create the resource
     const resource = new Resource(
-      uuidv4(),
+      this.random.uuid(),
       position,
       type,
-      type === 'wood' ? 1 : 1 // Wood gives 1 HP, chest unlocks cannons
+      1 // Wood gives 1 HP; chests offer an upgrade and ammo crates refill special ammo instead
     );
     
     // Log resource creation to help with debugging
     console.log(`Spawned ${type} at (${Math.floor(position.x)}, ${Math.floor(position.y)})`);
     
     // Add to resources collection
-    this.resources.set(resource.id, resource);
+    this.addResource(resource);
   }
   
   // Get all entities visible to a player
@@ -334,212 +563,216 @@ export class World {
       ships: [],
       resources: [],
       rocks: [],
-      projectiles: []
+      projectiles: [],
+      zones: this.getZones()
     };
     
+    const { x, y } = player.position;
+    
     // Add visible ships (other players)
-    for (const otherPlayer of this.players.values()) {
+    this.playerGrid.forEachInRadius(x, y, viewportRadius, otherPlayer => {
       if (otherPlayer.id !== player.id) {
-        const dx = otherPlayer.position.x - player.position.x;
-        const dy = otherPlayer.position.y - player.position.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        
-        if (distance < viewportRadius + otherPlayer.size) {
-          visibleEntities.ships.push(otherPlayer);
-        }
-      }
-    }
-    
-    // Add visible resources
-    for (const resource of this.resources.values()) {
-      const dx = resource.position.x - player.position.x;
-      const dy = resource.position.y - player.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      if (distance < viewportRadius + resource.size) {
-        visibleEntities.resources.push(resource);
-      }
-    }
-    
-    // Add visible rocks
-    for (const rock of this.rocks.values()) {
-      const dx = rock.position.x - player.position.x;
-      const dy = rock.position.y - player.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      if (distance < viewportRadius + rock.size) {
-        visibleEntities.rocks.push(rock);
+        visibleEntities.ships.push(otherPlayer);
       }
-    }
+    });
     
-    // Add visible projectiles
-    for (const projectile of this.projectiles.values()) {
-      const dx = projectile.position.x - player.position.x;
-      const dy = projectile.position.y - player.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      if (distance < viewportRadius + projectile.size) {
-        visibleEntities.projectiles.push(projectile);
-      }
-    }
+    // Add visible resources, rocks and projectiles
+    visibleEntities.resources = this.resourceGrid.queryRadius(x, y, viewportRadius);
+    visibleEntities.rocks = this.rockGrid.queryRadius(x, y, viewportRadius);
+    visibleEntities.projectiles = this.projectileGrid.queryRadius(x, y, viewportRadius);
     
     return visibleEntities;
   }
   
-  // Get entity updates based on previous known state
-  getEntityUpdates(previousEntities: VisibleEntities, currentEntities: VisibleEntities): any[] {
+  // Get entity updates against the entity versions a client already has.
+  // `knownVersions` is updated in place to reflect what is being sent.
+  getEntityUpdates(knownVersions: Map<string, number>, currentEntities: VisibleEntities): any[] {
     const updates: any[] = [];
+    const visibleIds = new Set<string>();
     
-    // Handle ships - Force include ALL ships in every update with complete data
-    currentEntities.ships.forEach(ship => {
-      updates.push(ship.serialize());
-    });
-    
-    // Handle resources - Always include ALL resources in updates
-    currentEntities.resources.forEach(resource => {
-      updates.push(resource.serialize());
-    });
+    const entities: Entity[] = [
+      ...currentEntities.ships,
+      ...currentEntities.resources,
+      ...currentEntities.rocks,
+      ...currentEntities.projectiles,
+      ...currentEntities.zones
+    ];
     
-    // Handle rocks
-    this.getEntityTypeUpdates(
-      previousEntities.rocks,
-      currentEntities.rocks,
-      updates
-    );
+    // Only send entities that are new to this client or changed since it last saw them
+    for (const entity of entities) {
+      visibleIds.add(entity.id);
+      
+      if (knownVersions.get(entity.id) !== entity.version) {
+        updates.push(entity.serialize());
+        knownVersions.set(entity.id, entity.version);
+      }
+    }
     
-    return updates;
-  }
-  
-  // Helper method to determine which entities need updates
-  private getEntityTypeUpdates(previous: any[], current: any[], updates: any[]): void {
-    // First find entities that are removed
-    for (const prevEntity of previous) {
-      if (!current.find(e => e.id === prevEntity.id)) {
+    // Anything the client knows about that is no longer visible has been removed
+    // (destroyed, collected or out of view)
+    for (const id of knownVersions.keys()) {
+      if (!visibleIds.has(id)) {
         updates.push({
-          id: prevEntity.id,
+          id,
           removed: true
         });
+        knownVersions.delete(id);
       }
     }
     
-    // Then add new or modified entities
-    for (const entity of current) {
-      // If entity wasn't in previous list, add it
-      const prevEntity = previous.find(e => e.id === entity.id);
-      if (!prevEntity) {
-        updates.push(entity.serialize());
-      }
-      // If position changed, add it
-      else if (
-        entity.position.x !== prevEntity.position.x ||
-        entity.position.y !== prevEntity.position.y ||
-        // For ships, also check if other properties changed
-        ('angle' in entity && 'angle' in prevEntity && entity.angle !== prevEntity.angle) ||
-        ('hp' in entity && 'hp' in prevEntity && entity.hp !== prevEntity.hp)
-      ) {
-        updates.push(entity.serialize());
-      }
-    }
+    return updates;
   }
   
   // Start resource spawning
   startResourceSpawning(): void {
+    this.spawningEnabled = true;
+  }
+  
+  // Stop resource spawning
+  stopResourceSpawning(): void {
+    this.spawningEnabled = false;
+  }
+  
+  // Get the number of simulation ticks run so far
+  getTickCount(): number {
+    return this.tickCount;
+  }
+  
+  // Check whether a spawn with the given interval is due on the current tick
+  private isSpawnTick(intervalMs: number, deltaTime: number): boolean {
+    const intervalTicks = Math.max(1, Math.round(intervalMs / deltaTime));
+    return this.tickCount % intervalTicks === 0;
+  }
+  
+  // Run any resource and rock spawns scheduled for the current tick
+  private runScheduledSpawns(deltaTime: number): void {
+    // Only spawn if players exist
+    if (this.players.size === 0) return;
+    
     // Spawn wood every 5 seconds
-    this.woodSpawnInterval = setInterval(() => {
-      if (this.players.size > 0) { // Only spawn if players exist
-        // Spawn multiple wood resources
-        for (let i = 0; i < this.woodSpawnQuantity; i++) {
-          this.spawnResource('wood');
-        }
+    if (this.isSpawnTick(this.woodSpawnIntervalMs, deltaTime)) {
+      // Spawn multiple wood resources
+      for (let i = 0; i < this.woodSpawnQuantity; i++) {
+        this.spawnResource('wood');
       }
-    }, this.woodSpawnIntervalMs);
+    }
     
     // Chest spawning is disabled by setting chestSpawnQuantity to 0
-    
-    // Occasionally spawn new rocks
-    this.rockSpawnInterval = setInterval(() => {
-      if (this.rocks.size < this.maxRockCount && this.players.size > 0) {
-        // Spawn multiple rocks
-        for (let i = 0; i < this.rockSpawnQuantity; i++) {
-          if (this.rocks.size < this.maxRockCount) {
-            const position = this.getRandomPosition();
-            if (this.isPositionSafe(position, 100)) {
-              const size = 20 + Math.random() * 30;
-              const hp = Math.floor(size / 10);
-              const rock = new Rock(uuidv4(), position, size, hp);
-              this.rocks.set(rock.id, rock);
-            }
-          }
-        }
+    if (this.isSpawnTick(this.chestSpawnIntervalMs, deltaTime)) {
+      for (let i = 0; i < this.chestSpawnQuantity; i++) {
+        this.spawnResource('chest');
       }
-    }, this.rockSpawnIntervalMs);
-  }
-  
-  // Stop resource spawning
-  stopResourceSpawning(): void {
-    if (this.woodSpawnInterval) {
-      clearInterval(this.woodSpawnInterval);
-      this.woodSpawnInterval = null;
     }
     
-    if (this.chestSpawnInterval) {
-      clearInterval(this.chestSpawnInterval);
-      this.chestSpawnInterval = null;
+    // Ammo crates for the special cannon ammo
+    if (this.isSpawnTick(this.ammoSpawnIntervalMs, deltaTime)) {
+      for (let i = 0; i < this.ammoSpawnQuantity; i++) {
+        this.spawnResource('ammo');
+      }
     }
     
-    if (this.rockSpawnInterval) {
-      clearInterval(this.rockSpawnInterval);
-      this.rockSpawnInterval = null;
+    // Occasionally spawn new rocks
+    if (this.isSpawnTick(this.rockSpawnIntervalMs, deltaTime)) {
+      // Spawn multiple rocks
+      for (let i = 0; i < this.rockSpawnQuantity; i++) {
+        if (this.rocks.size < this.maxRockCount) {
+          const position = this.getRandomPosition();
+          if (this.isPositionSafe(position, 100)) {
+            this.createRock(position);
+          }
+        }
+      }
     }
   }
   
   // Update the world state
   update(deltaTime: number): void {
-    // Update all players
+    this.simulationTime += deltaTime;
+    this.wind.update(deltaTime);
+    
+    // NPCs pick their controls and fire, as clients do between ticks
+    for (const npc of this.npcs.values()) {
+      if (!npc.player.sunk) {
+        npc.update(this, deltaTime);
+      }
+    }
+    
+    // Update all players (sunk ships are out of the world until they come back)
     for (const player of this.players.values()) {
+      if (player.sunk) continue;
+      
       // Store previous position before updating
       const prevPos = { ...player.position };
       
       // Update player position
-      player.update(deltaTime);
+      player.update(deltaTime, this.wind.sampleAt(player.position.x, player.position.y));
       
       // Check collisions with rocks and prevent movement through them
-      for (const rock of this.rocks.values()) {
-        if (player.collidesWith(rock)) {
-          // Collision detected, revert to previous position
-          player.position = prevPos;
-          break;
-        }
+      const { x, y } = player.position;
+      const rock = this.rockGrid.queryRadius(x, y, player.size)[0];
+      const otherShip = rock ? undefined : this.playerGrid.queryRadius(x, y, player.size).find(other => other.id !== player.id);
+      if (rock) {
+        // Collision detected, revert to previous position and stop heading into
+        // the rock (the ship can still slide along it)
+        player.position = prevPos;
+        player.stopMovingToward(rock.position);
       }
       
       // Check player-player collisions
-      for (const otherPlayer of this.players.values()) {
-        if (player.id !== otherPlayer.id && player.collidesWith(otherPlayer)) {
-          // Simple bounce-back for player-player collisions
-          player.position = prevPos;
-          break;
-        }
+      else if (otherShip) {
+        // Back off, then both ships bounce apart and take ramming damage
+        player.position = prevPos;
+        this.resolveRam(player, otherShip);
       }
+      
+      // Rammed itself out of the match (already taken out of the indexes)
+      if (player.sunk) continue;
+      
+      // Keep the spatial index in sync with the new position
+      this.playerGrid.update(player);
+      
+      // Remember where the ship was this tick for lag-compensated hits
+      this.shipHistory.record(player, this.simulationTime);
     }
     
-    // Update projectiles and check collisions
+    // Mossy rocks slowly grow back
+    this.updateRegrowingRocks(deltaTime);
+    
+    // Cannons of rolling broadsides, then projectiles and their collisions
+    this.firePendingCannonShots();
     this.updateProjectiles(deltaTime);
     
     // Check collisions with resources
     this.checkResourceCollisions();
+    
+    // Objectives, scores and match timers
+    this.mode.update(deltaTime);
+    
+    // Put prices on the heads of ships that have grown too dominant
+    for (const ship of this.bounties.update(this.getShips())) {
+      this.broadcast('game:killfeed', `A bounty of ${BountyBoard.getValue(ship)} is on ${ship.name}'s head!`);
+    }
+    
+    // Advance the tick counter and run scheduled spawns
+    this.tickCount++;
+    if (this.spawningEnabled) {
+      this.runScheduledSpawns(deltaTime);
+    }
   }
   
   // Update projectiles and check collisions
   private updateProjectiles(deltaTime: number): void {
-    const projectilesToRemove: string[] = [];
+    const projectilesToRemove: Projectile[] = [];
     
     // Update projectile positions
     for (const projectile of this.projectiles.values()) {
-      projectile.update(deltaTime);
+      projectile.update(deltaTime, this.wind.sampleAt(projectile.position.x, projectile.position.y));
+      this.projectileGrid.update(projectile);
       
-      // Check if projectile expired
+      // Check if projectile expired (explosive shot goes off where it lands)
       if (projectile.isExpired()) {
-        projectilesToRemove.push(projectile.id);
+        this.explodeProjectile(projectile);
+        projectilesToRemove.push(projectile);
         continue;
       }
       
@@ -550,93 +783,478 @@ export class World {
         projectile.position.y < 0 || 
         projectile.position.y > this.height
       ) {
-        projectilesToRemove.push(projectile.id);
+        projectilesToRemove.push(projectile);
         continue;
       }
       
+      const { x, y } = projectile.position;
+      let hit = false;
+      
       // Check collisions with rocks
-      for (const rock of this.rocks.values()) {
-        if (projectile.collidesWith(rock)) {
-          // Damage the rock
-          if (rock.takeDamage(projectile.damage)) {
-            // Rock destroyed
-            this.rocks.delete(rock.id);
-          }
-          
-          // Remove projectile
-          projectilesToRemove.push(projectile.id);
-          break;
-        }
-      }
+      this.rockGrid.forEachInRadius(x, y, projectile.size, rock => {
+        // Damage the rock
+        this.damageRock(rock, projectile.damage, projectile.ownerId);
+        
+        // Remove projectile
+        hit = true;
+        return false;
+      });
       
       // Skip player checks if already marked for removal
-      if (projectilesToRemove.includes(projectile.id)) continue;
-      
-      // Check collisions with players (but not the owner)
-      for (const player of this.players.values()) {
-        if (player.id !== projectile.ownerId && projectile.collidesWith(player)) {
-          // Damage the player
-          const isDead = player.takeDamage(projectile.damage);
-          
-          if (isDead) {
-            // Player died - handle death
-            this.handlePlayerDeath(player, projectile.ownerId);
-          }
-          
-          // Remove projectile
-          projectilesToRemove.push(projectile.id);
-          break;
+      if (hit) {
+        this.explodeProjectile(projectile);
+        projectilesToRemove.push(projectile);
+        continue;
+      }
+      
+      // Check collisions with players (but not the owner or allies). Rewound shots can hit
+      // ships that have since moved away, so widen the search by how far a ship
+      // could have sailed in the meantime.
+      const rewindTime = this.simulationTime - projectile.rewindMs;
+      const searchRadius = projectile.size + World.MAX_SHIP_SPEED * projectile.rewindMs / 1000;
+      this.playerGrid.forEachInRadius(x, y, searchRadius, player => {
+        if (!this.canHarm(projectile.ownerId, player.id)) return;
+        
+        if (!this.isProjectileHittingShip(projectile, player, rewindTime)) return;
+        
+        // Damage the player; chain shot also tangles their rigging
+        const isDead = this.dealDamage(player, projectile.damage, projectile.ownerId);
+        const ammo = getAmmo(projectile.ammoType);
+        if (!isDead && ammo.slowMs > 0) {
+          player.applySlow(ammo.slowFactor, ammo.slowMs);
         }
+        
+        if (isDead) {
+          // Player died - handle death
+          this.handlePlayerDeath(player, projectile.ownerId);
+        } else {
+          // Size shrinks with HP
+          this.playerGrid.update(player);
+        }
+        
+        // Remove projectile
+        hit = true;
+        return false;
+      });
+      
+      if (hit) {
+        this.explodeProjectile(projectile);
+        projectilesToRemove.push(projectile);
       }
     }
     
     // Remove collected projectiles
-    for (const id of projectilesToRemove) {
-      this.projectiles.delete(id);
+    for (const projectile of projectilesToRemove) {
+      this.removeProjectile(projectile);
+    }
+  }
+  
+  // Ramming: knock two colliding ships apart and damage both by how hard they
+  // met. Damage grows with closing speed and the other ship's relative size,
+  // and a ship striking with its bow takes less than one struck in the side.
+  private resolveRam(rammer: Player, target: Player): void {
+    const dx = target.position.x - rammer.position.x;
+    const dy = target.position.y - rammer.position.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0) return;
+    
+    // Normal from the rammer to the target, and how fast they are closing along it
+    const normalX = dx / distance;
+    const normalY = dy / distance;
+    const closingSpeed = (rammer.velocity.x - target.velocity.x) * normalX + (rammer.velocity.y - target.velocity.y) * normalY;
+    if (closingSpeed <= 0) return; // Already moving apart
+    
+    // Bounce apart; bigger ships are heavier and get pushed less
+    const rammerMass = rammer.size;
+    const targetMass = target.size;
+    const impulse = (1 + World.RAM_RESTITUTION) * closingSpeed / (1 / rammerMass + 1 / targetMass);
+    rammer.applyImpulse(-normalX * impulse / rammerMass, -normalY * impulse / rammerMass);
+    target.applyImpulse(normalX * impulse / targetMass, normalY * impulse / targetMass);
+    
+    // Gentle bumps and bumps between allies don't hurt
+    if (closingSpeed < World.RAM_MIN_SPEED || this.alliances.areAllied(rammer.id, target.id)) return;
+    
+    const baseDamage = closingSpeed * World.RAM_DAMAGE_PER_SPEED;
+    const rammerDamage = baseDamage * this.getRamExposure(rammer, normalX, normalY, targetMass / rammerMass);
+    const targetDamage = baseDamage * this.getRamExposure(target, -normalX, -normalY, rammerMass / targetMass);
+    
+    const targetSank = this.dealDamage(target, targetDamage, rammer.id);
+    const rammerSank = this.dealDamage(rammer, rammerDamage, target.id);
+    
+    // Each ship is credited with sinking the other
+    if (targetSank) {
+      this.handlePlayerDeath(target, rammer.id, 'ram');
+    } else {
+      this.playerGrid.update(target);
+    }
+    if (rammerSank) {
+      this.handlePlayerDeath(rammer, target.id, 'ram');
+    }
+  }
+  
+  // Share of ramming damage a ship takes when hit from the direction (toX, toY)
+  // by a ship `sizeRatio` times its size
+  private getRamExposure(ship: Player, toX: number, toY: number, sizeRatio: number): number {
+    // 1 when the bow points at the other ship, 0 side-on or facing away
+    const bowOn = Math.max(0, Math.cos(ship.angle) * toX + Math.sin(ship.angle) * toY);
+    const angleFactor = 1 - (1 - World.RAM_BOW_FACTOR) * bowOn;
+    const sizeFactor = Math.max(World.RAM_MIN_SIZE_FACTOR, Math.min(sizeRatio, World.RAM_MAX_SIZE_FACTOR));
+    return angleFactor * sizeFactor;
+  }
+  
+  // Splash damage from explosive shot, to every ship (but the shooter's and allies') and rock in range
+  private explodeProjectile(projectile: Projectile): void {
+    const ammo = getAmmo(projectile.ammoType);
+    if (ammo.splashRadius <= 0) return;
+    
+    const { x, y } = projectile.position;
+    
+    for (const rock of this.rockGrid.queryRadius(x, y, ammo.splashRadius)) {
+      this.damageRock(rock, ammo.splashDamage, projectile.ownerId);
+    }
+    
+    for (const player of this.playerGrid.queryRadius(x, y, ammo.splashRadius)) {
+      if (!this.canHarm(projectile.ownerId, player.id)) continue;
+      
+      if (this.dealDamage(player, ammo.splashDamage, projectile.ownerId)) {
+        this.handlePlayerDeath(player, projectile.ownerId);
+      } else {
+        this.playerGrid.update(player);
+      }
+    }
+  }
+  
+  // Damage a rock, destroying it when its HP runs out
+  private damageRock(rock: Rock, amount: number, attackerId: string): void {
+    if (rock.takeDamage(amount)) {
+      this.destroyRock(rock, attackerId);
+    } else if (rock.isRegrowing()) {
+      this.regrowingRocks.add(rock);
+    }
+  }
+  
+  // Remove a destroyed rock, scatter its loot and set off powder rocks
+  private destroyRock(rock: Rock, destroyerId: string): void {
+    this.removeRock(rock);
+    
+    for (const type of rollLoot(rock.variant, this.random)) {
+      const angle = this.random.next() * Math.PI * 2;
+      const distance = this.random.next() * rock.size;
+      const position = {
+        x: Math.max(0, Math.min(this.width, rock.position.x + Math.cos(angle) * distance)),
+        y: Math.max(0, Math.min(this.height, rock.position.y + Math.sin(angle) * distance))
+      };
+      this.addResource(new Resource(this.random.uuid(), position, type, 1));
+    }
+    
+    const { explosionRadius, explosionDamage } = rock.variant;
+    if (explosionRadius <= 0) return;
+    
+    const { x, y } = rock.position;
+    
+    // Every ship in range but the destroyer's allies is hurt, including the one
+    // that set it off. Kills are credited to whoever destroyed the rock.
+    for (const player of this.playerGrid.queryRadius(x, y, explosionRadius)) {
+      if (player.id !== destroyerId && !this.canHarm(destroyerId, player.id)) continue;
+      
+      if (this.dealDamage(player, explosionDamage, destroyerId)) {
+        this.handlePlayerDeath(player, player.id === destroyerId ? '' : destroyerId);
+      } else {
+        this.playerGrid.update(player);
+      }
+    }
+    
+    // Let everyone who can see the blast draw it
+    for (const player of this.players.values()) {
+      const viewportRadius = 500 + player.size * 3;
+      const dx = player.position.x - x;
+      const dy = player.position.y - y;
+      if (dx * dx + dy * dy <= (viewportRadius + explosionRadius) ** 2) {
+        this.emitToPlayer(player.id, 'world:explosion', { x, y, radius: explosionRadius });
+      }
+    }
+  }
+  
+  // Heal damaged mossy rocks, dropping them from the set once they're whole again
+  private updateRegrowingRocks(deltaTime: number): void {
+    for (const rock of this.regrowingRocks) {
+      rock.update(deltaTime);
+      if (!rock.isRegrowing()) {
+        this.regrowingRocks.delete(rock);
+      }
     }
   }
   
   // Check for collisions with resources
   private checkResourceCollisions(): void {
-    const resourcesToRemove: string[] = [];
+    const resourcesToRemove: Resource[] = [];
     
-    // Check each player against each resource
+    // Check each player against nearby resources
     for (const player of this.players.values()) {
-      for (const resource of this.resources.values()) {
-        if (player.collidesWith(resource)) {
-          // Player collided with resource
-          if (resource.resourceType === 'wood') {
-            // Wood adds HP
-            player.addHp(resource.value);
-          } else if (resource.resourceType === 'chest') {
-            // Chest only adds cannons if player has enough HP
-            if (player.hp >= 6) {
-              // Add cannons based on HP tier
-              player.updateCannons();
-            }
-          }
-          
-          // Mark resource for removal
-          resourcesToRemove.push(resource.id);
+      if (player.sunk) continue;
+      
+      const nearbyResources = this.resourceGrid.queryRadius(player.position.x, player.position.y, player.size);
+      
+      // Every resource returned by the grid overlaps the player
+      for (const resource of nearbyResources) {
+        // Player collided with resource
+        if (resource.resourceType === 'wood') {
+          // Wood adds HP
+          player.addHp(resource.value);
+          player.woodCollected += resource.value;
+        } else if (resource.resourceType === 'chest') {
+          // Chest lets the player pick an upgrade
+          this.offerUpgrade(player);
+        } else if (resource.resourceType === 'ammo') {
+          // Crate tops up special ammo
+          player.refillAmmo();
+          this.sendAmmo(player);
+        } else if (resource.resourceType === 'treasure') {
+          // The game mode decides who may carry the treasure off
+          if (!this.mode.pickUpTreasure(player, resource)) continue;
         }
+        
+        // Mark resource for removal
+        resourcesToRemove.push(resource);
+      }
+      
+      // Size grows with HP
+      if (nearbyResources.length > 0) {
+        this.playerGrid.update(player);
       }
     }
     
     // Remove collected resources
-    for (const id of resourcesToRemove) {
-      this.resources.delete(id);
+    for (const resource of resourcesToRemove) {
+      this.removeResource(resource);
+    }
+  }
+  
+  // Offer the player a choice of upgrades from a chest. Only one offer is open at
+  // a time; chests collected meanwhile are offered once it has been answered.
+  private offerUpgrade(player: Player): void {
+    if (player.upgradeOffer) {
+      player.queuedUpgradeOffers++;
+      return;
+    }
+    
+    const choices = rollUpgradeChoices(player.upgrades, this.random);
+    
+    // Everything is maxed out: the chest is worth some HP instead
+    if (choices.length === 0) {
+      player.addHp(1);
+      this.playerGrid.update(player);
+      return;
+    }
+    
+    player.upgradeOffer = {
+      id: this.nextUpgradeOfferId++,
+      options: choices.map(type => getUpgradeStatus(type, player.upgrades))
+    };
+    this.emitToPlayer(player.id, 'player:upgrade_offer', player.upgradeOffer);
+  }
+  
+  // Apply a player's pick from their open offer; false if the offer is gone or
+  // didn't include that upgrade
+  pickUpgrade(playerId: string, offerId: number, type: UpgradeType): boolean {
+    const player = this.players.get(playerId);
+    const offer = player?.upgradeOffer;
+    if (!player || !offer || offer.id !== offerId) return false;
+    if (!offer.options.some(option => option.type === type)) return false;
+    
+    player.applyUpgrade(type);
+    player.upgradeOffer = null;
+    this.sendUpgrades(player);
+    
+    // Next chest in line
+    if (player.queuedUpgradeOffers > 0) {
+      player.queuedUpgradeOffers--;
+      this.offerUpgrade(player);
+    }
+    
+    return true;
+  }
+  
+  // Tell a player which upgrades they have and the stats that depend on them
+  // (the client predicts its own turning, so it needs the upgraded turn rate)
+  private sendUpgrades(player: Player): void {
+    this.emitToPlayer(player.id, 'player:upgrades', {
+      upgrades: UPGRADES.map(upgrade => getUpgradeStatus(upgrade.type, player.upgrades)),
+      turnRate: player.getTurnRate()
+    });
+  }
+  
+  // Load a different ammo type for a player; false if they have none of it
+  selectAmmo(playerId: string, type: AmmoType): boolean {
+    const player = this.players.get(playerId);
+    if (!player || !player.selectAmmo(type)) return false;
+    
+    this.sendAmmo(player);
+    return true;
+  }
+  
+  // Tell a player what ammo they have loaded and how much of each they carry
+  private sendAmmo(player: Player): void {
+    this.emitToPlayer(player.id, 'player:ammo', player.getAmmoStatus());
+  }
+  
+  // Whether an attacker's shots and blasts can hurt a ship: not their own, and
+  // not their allies'
+  private canHarm(attackerId: string, targetId: string): boolean {
+    return attackerId !== targetId && !this.alliances.areAllied(attackerId, targetId);
+  }
+  
+  areAllied(a: string, b: string): boolean {
+    return this.alliances.areAllied(a, b);
+  }
+  
+  // Ask another ship's captain to ally with a player; false if refused
+  requestAlliance(playerId: string, targetId: string): boolean {
+    const player = this.players.get(playerId);
+    const target = this.players.get(targetId);
+    if (!player || !target) return false;
+    
+    const refusal = this.isNpc(targetId) ? 'npc' : this.alliances.request(playerId, targetId, this.simulationTime);
+    if (refusal) {
+      this.emitToPlayer(playerId, 'alliance:notice', ALLIANCE_REFUSAL_MESSAGES[refusal]);
+      return false;
+    }
+    
+    this.emitToPlayer(targetId, 'alliance:request', { id: player.id, name: player.name });
+    this.emitToPlayer(playerId, 'alliance:notice', `Alliance request sent to ${target.name}`);
+    return true;
+  }
+  
+  // Accept or decline another player's alliance request; false if it didn't
+  // lead to an alliance
+  respondToAlliance(playerId: string, fromId: string, accept: boolean): boolean {
+    const player = this.players.get(playerId);
+    if (!player) return false;
+    
+    if (!accept) {
+      if (this.alliances.decline(playerId, fromId)) {
+        this.emitToPlayer(fromId, 'alliance:notice', `${player.name} declined your alliance`);
+      }
+      return false;
+    }
+    
+    const result = this.alliances.accept(playerId, fromId, this.simulationTime);
+    if (typeof result === 'string') {
+      this.emitToPlayer(playerId, 'alliance:notice', ALLIANCE_REFUSAL_MESSAGES[result]);
+      return false;
+    }
+    
+    this.sendAllianceNotice(result, `${player.name} and ${this.players.get(fromId)?.name} are now allies`);
+    this.sendAllianceToMembers(result);
+    return true;
+  }
+  
+  // Leave a player-made alliance; false if not in one (or it's a fixed team)
+  leaveAlliance(playerId: string): boolean {
+    const player = this.players.get(playerId);
+    const alliance = this.alliances.getAlliance(playerId);
+    if (!player || !alliance) return false;
+    
+    // The alliance may disband, so note who to tell first
+    const members = Array.from(alliance.members);
+    if (!this.alliances.leave(playerId)) return false;
+    
+    this.sendAllianceToMembers(alliance, members);
+    for (const memberId of members) {
+      this.emitToPlayer(memberId, 'alliance:notice', `${player.name} left the ${alliance.name}`);
+    }
+    return true;
+  }
+  
+  // Switch to fixed teams, assigned to every ship now and as they join
+  // (0 = players form their own alliances)
+  setTeams(count: number): void {
+    this.alliances.setTeams(count);
+    for (const player of this.players.values()) {
+      this.alliances.assignTeam(player.id);
+    }
+    for (const player of this.players.values()) {
+      this.sendAlliance(player.id);
+    }
+    
+    console.log(count > 0 ? `Team mode: ${count} teams` : 'Team mode off');
+  }
+  
+  isTeamMode(): boolean {
+    return this.alliances.isTeamMode();
+  }
+  
+  // The fixed teams, in team mode
+  getTeams(): Alliance[] {
+    return this.alliances.getTeams();
+  }
+  
+  getAlliance(playerId: string): Alliance | undefined {
+    return this.alliances.getAlliance(playerId);
+  }
+  
+  // Tell a player which alliance they're in now (null = none)
+  private sendAlliance(playerId: string): void {
+    const alliance = this.alliances.getAlliance(playerId);
+    this.emitToPlayer(playerId, 'player:alliance', alliance ? this.getAllianceStatus(alliance) : null);
+  }
+  
+  // Bring everyone in an alliance (or a given list of players) up to date
+  private sendAllianceToMembers(alliance: Alliance, memberIds: string[] = Array.from(alliance.members)): void {
+    for (const memberId of memberIds) {
+      this.sendAlliance(memberId);
+    }
+  }
+  
+  private sendAllianceNotice(alliance: Alliance, message: string): void {
+    for (const memberId of alliance.members) {
+      this.emitToPlayer(memberId, 'alliance:notice', message);
+    }
+  }
+  
+  private getAllianceStatus(alliance: Alliance): AllianceStatus {
+    return {
+      id: alliance.id,
+      name: alliance.name,
+      color: alliance.color,
+      members: Array.from(alliance.members).map(id => ({ id, name: this.players.get(id)?.name || '' })),
+      maxSize: alliance.fixed ? null : AllianceManager.MAX_SIZE,
+      fixed: alliance.fixed
+    };
+  }
+  
+  private emitToPlayer(playerId: string, event: string, data: unknown): void {
+    this.io?.sockets.sockets.get(playerId)?.emit(event, data);
+  }
+  
+  // Send a message to every player in the world
+  broadcast(event: string, data: unknown): void {
+    for (const player of this.players.values()) {
+      this.emitToPlayer(player.id, event, data);
     }
   }
   
   // Handle player death
-  private handlePlayerDeath(player: Player, killerID: string): void {
+  private handlePlayerDeath(player: Player, killerID: string, cause: DeathCause = 'cannon'): void {
     // Find killer player
     const killer = this.players.get(killerID);
     
+    // Track kill/death counts
+    player.deaths++;
+    player.killStreak = 0;
+    player.endLife();
+    if (killer) {
+      killer.kills++;
+      killer.killStreak++;
+    }
+    
     // Broadcast kill message
-    const killMessage = killer 
-      ? `${killer.name} sank ${player.name}'s ship!`
-      : `${player.name}'s ship was destroyed!`;
+    let killMessage = cause === 'storm' ? `${player.name}'s ship was swallowed by the storm!` : `${player.name}'s ship was destroyed!`;
+    if (killer) {
+      killMessage = cause === 'ram'
+        ? `${killer.name} rammed ${player.name}'s ship to the bottom!`
+        : `${killer.name} sank ${player.name}'s ship!`;
+    }
     
     // Emit kill message to all players
     if (this.io) {
@@ -654,16 +1272,126 @@ export class World {
       }
     }
     
+    // Whoever sank a ship with a bounty on it collects (nobody does if it sank by itself)
+    const bounty = this.bounties.claim(player.id);
+    if (bounty && killer) {
+      killer.bountyScore += bounty.value;
+      this.healShip(killer, bounty.value * BountyBoard.WOOD_PER_POINT);
+      this.broadcast('game:killfeed', `${killer.name} claimed the ${bounty.value} bounty on ${player.name}!`);
+    }
+    
+    // The game mode gets a look before the ship leaves its wreck (e.g. to drop the treasure)
+    this.mode.onShipSunk(player, killer || null);
+    
     // Drop loot at player's position
     this.dropPlayerLoot(player);
     
-    // Reset player stats
+    // Back with base stats, unless the game mode keeps sunk ships out
+    if (this.mode.canRespawn(player)) {
+      this.respawnShip(player);
+    } else {
+      this.resetShip(player);
+      this.eliminateShip(player);
+    }
+  }
+  
+  // Bring a ship back with base stats at a safe spawn location (after sinking,
+  // or when a game mode starts a new match)
+  respawnShip(player: Player): void {
+    this.resetShip(player);
+    
+    player.sunk = false;
+    player.position = this.mode.getSpawnPosition(player) || this.getRandomSpawnPosition();
+    player.stop();
+    this.playerGrid.update(player);
+    
+    // Shots fired at the old position must not hit the respawned ship,
+    // and its remaining cannons stay silent
+    this.shipHistory.remove(player.id);
+    this.cancelCannonShots(player.id);
+    player.cannonCooldowns = { port: 0, starboard: 0 };
+  }
+  
+  // Take a ship out of the world until respawnShip brings it back: it can't
+  // be seen, hit or sail, and its captain watches from where it went down
+  eliminateShip(player: Player): void {
+    player.sunk = true;
+    player.stop();
+    player.controls = { moveForward: false, rotateLeft: false, rotateRight: false, brake: false };
+    this.playerGrid.remove(player);
+    this.shipHistory.remove(player.id);
+    this.cancelCannonShots(player.id);
+    
+    // Other clients keep ships until told otherwise (ships:batch_update brings
+    // it back after respawnShip); its own captain keeps watching the wreck
+    for (const other of this.players.values()) {
+      if (other.id !== player.id) {
+        this.emitToPlayer(other.id, 'entity:removed', { id: player.id, removed: true });
+      }
+    }
+  }
+  
+  // Hurt a ship from something other than another ship (e.g. the storm),
+  // sinking it when its HP runs out
+  damageShip(player: Player, amount: number, cause: DeathCause): void {
+    if (player.sunk) return;
+    
+    if (player.takeDamage(amount)) {
+      this.handlePlayerDeath(player, '', cause);
+    } else {
+      this.playerGrid.update(player);
+    }
+  }
+  
+  // Give a ship HP from something other than wood (e.g. a zone its side holds)
+  healShip(player: Player, amount: number): void {
+    if (player.sunk) return;
+    
+    player.addHp(amount);
+    this.playerGrid.update(player);
+  }
+  
+  // Ships afloat with their centre within `radius` of a point
+  getShipsNear(position: Vector2, radius: number): Player[] {
+    return this.playerGrid.queryRadius(position.x, position.y, radius)
+      .filter(player => Math.hypot(player.position.x - position.x, player.position.y - position.y) <= radius);
+  }
+  
+  // Back to base stats: no upgrades and only round shot
+  private resetShip(player: Player): void {
     player.hp = 1;
     player.cannons = 2;
     player.updateSize(); // Adjust size based on new HP
+    player.resetUpgrades();
+    player.resetAmmo();
+    this.sendUpgrades(player);
+    this.sendAmmo(player);
+  }
+  
+  // Damage a ship on behalf of another, crediting the attacker with the HP it
+  // took off (for the leaderboard); true if the ship sank
+  private dealDamage(target: Player, amount: number, attackerId: string): boolean {
+    const hpBefore = target.hp;
+    const sank = target.takeDamage(amount);
     
-    // Move player to a safe spawn location
-    player.position = this.getRandomSpawnPosition();
+    const attacker = this.players.get(attackerId);
+    if (attacker && attacker !== target) {
+      attacker.damageDealt += hpBefore - Math.max(0, target.hp);
+    }
+    return sank;
+  }
+  
+  // Check a projectile against a ship, rewinding the ship to `time` for lag compensation
+  private isProjectileHittingShip(projectile: Projectile, player: Player, time: number): boolean {
+    const past = projectile.rewindMs > 0 ? this.shipHistory.sampleAt(player.id, time) : null;
+    const shipX = past ? past.x : player.position.x;
+    const shipY = past ? past.y : player.position.y;
+    const shipSize = past ? past.size : player.size;
+    
+    const dx = projectile.position.x - shipX;
+    const dy = projectile.position.y - shipY;
+    const reach = projectile.size + shipSize;
+    return dx * dx + dy * dy < reach * reach;
   }
   
   // Drop loot when a player dies
@@ -676,8 +1404,8 @@ export class World {
     for (let i = 0; i < woodCount; i++) {
       // Random offset from death position
       const offset = {
-        x: (Math.random() * 50) - 25,
-        y: (Math.random() * 50) - 25
+        x: (this.random.next() * 50) - 25,
+        y: (this.random.next() * 50) - 25
       };
       
       const resourcePosition = {
@@ -686,13 +1414,13 @@ export class World {
       };
       
       const resource = new Resource(
-        uuidv4(),
+        this.random.uuid(),
         resourcePosition,
         'wood',
         1
       );
       
-      this.resources.set(resource.id, resource);
+      this.addResource(resource);
     }
   }
   
@@ -702,57 +1430,24 @@ export class World {
       ships: [],
       resources: [],
       rocks: [],
-      projectiles: []
+      projectiles: [],
+      zones: this.getZones()
     };
     
-    // Add ALL ships regardless of distance - ship positions are critical
-    for (const otherPlayer of this.players.values()) {
+    const { x, y } = player.position;
+    
+    // Ships further out than the (large) initial radius still reach the client
+    // through ships:batch_update, and resources through later snapshots
+    this.playerGrid.forEachInRadius(x, y, viewportRadius, otherPlayer => {
       if (otherPlayer.id !== player.id) {
         visibleEntities.ships.push(otherPlayer);
       }
-    }
-    
-    // If this is the initial state (large viewport radius), include ALL resources
-    const isInitialState = viewportRadius > 2000;
-    
-    // Add visible resources
-    for (const resource of this.resources.values()) {
-      if (isInitialState) {
-        // Include all resources in initial state
-        visibleEntities.resources.push(resource);
-      } else {
-        // Normal visibility check for regular updates
-        const dx = resource.position.x - player.position.x;
-        const dy = resource.position.y - player.position.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        
-        if (distance < viewportRadius + resource.size) {
-          visibleEntities.resources.push(resource);
-        }
-      }
-    }
-    
-    // Add visible rocks
-    for (const rock of this.rocks.values()) {
-      const dx = rock.position.x - player.position.x;
-      const dy = rock.position.y - player.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      if (distance < viewportRadius + rock.size) {
-        visibleEntities.rocks.push(rock);
-      }
-    }
+    });
     
-    // Add visible projectiles
-    for (const projectile of this.projectiles.values()) {
-      const dx = projectile.position.x - player.position.x;
-      const dy = projectile.position.y - player.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      
-      if (distance < viewportRadius + projectile.size) {
-        visibleEntities.projectiles.push(projectile);
-      }
-    }
+    // Add visible resources, rocks and projectiles
+    visibleEntities.resources = this.resourceGrid.queryRadius(x, y, viewportRadius);
+    visibleEntities.rocks = this.rockGrid.queryRadius(x, y, viewportRadius);
+    visibleEntities.projectiles = this.projectileGrid.queryRadius(x, y, viewportRadius);
     
     return visibleEntities;
   }
@@ -770,12 +1465,6 @@ export class World {
     this.chestSpawnIntervalMs = chestMs;
     this.rockSpawnIntervalMs = rockMs;
     console.log(`Resource spawn intervals updated: wood=${woodMs}ms, chest=${chestMs}ms, rock=${rockMs}ms`);
-    
-    // Restart intervals with new timings if already running
-    if (this.woodSpawnInterval || this.chestSpawnInterval || this.rockSpawnInterval) {
-      this.stopResourceSpawning();
-      this.startResourceSpawning();
-    }
   }
   
   setRockConfiguration(initialCount: number, maxCount: number): void {
@@ -787,7 +1476,12 @@ export class World {
   // Method to respawn all rocks (useful for testing)
   respawnRocks(): void {
     // Clear existing rocks
+    for (const rock of this.rocks.values()) {
+      this.netIds.release(rock.netId);
+    }
     this.rocks.clear();
+    this.regrowingRocks.clear();
+    this.rockGrid.clear();
     
     // Generate new rocks
     this.generateInitialRocks(this.initialRockCount);
@@ -796,23 +1490,165 @@ export class World {
   
   // Helper method to count wood resources
   private getWoodCount(): number {
+    return this.getResourceCount('wood');
+  }
+  
+  private getResourceCount(type: ResourceType): number {
     let count = 0;
     for (const resource of this.resources.values()) {
-      if (resource.resourceType === 'wood') {
+      if (resource.resourceType === type) {
         count++;
       }
     }
     return count;
   }
   
+  // Count entities by kind (used by the headless simulation reports)
+  getEntityCounts(): { wood: number, chests: number, rocks: number, projectiles: number, players: number } {
+    return {
+      wood: this.getWoodCount(),
+      chests: this.getResourceCount('chest'),
+      rocks: this.rocks.size,
+      projectiles: this.projectiles.size,
+      players: this.players.size
+    };
+  }
+  
+  // Set how far back (ms) shots may be rewound to compensate for the shooter's latency
+  setMaxRewind(maxRewindMs: number): void {
+    this.maxRewindMs = Math.max(0, maxRewindMs);
+    this.shipHistory.setDuration(this.maxRewindMs);
+    console.log(`Maximum lag compensation rewind set to ${this.maxRewindMs}ms`);
+  }
+  
+  // Set the delay between cannons of a rolling broadside (0 fires each side at once)
+  setCannonStagger(staggerMs: number): void {
+    this.cannonStaggerMs = Math.max(0, staggerMs);
+    console.log(`Cannon stagger set to ${this.cannonStaggerMs}ms`);
+  }
+  
+  // Set how many NPC ships sail this world and how well they fight. NPCs are
+  // added or sunk without trace to match the count.
+  setNpcConfiguration(count: number, difficulty: NpcDifficulty): void {
+    this.npcCount = Math.max(0, Math.floor(count));
+    this.npcDifficulty = difficulty;
+    
+    for (const npc of this.npcs.values()) {
+      npc.setDifficulty(difficulty);
+    }
+    while (this.npcs.size < this.npcCount) {
+      this.spawnNpc();
+    }
+    while (this.npcs.size > this.npcCount) {
+      this.removeNpc(Array.from(this.npcs.keys())[this.npcs.size - 1]);
+    }
+    
+    console.log(`NPC configuration updated: count=${this.npcCount}, difficulty=${difficulty}`);
+  }
+  
+  private spawnNpc(): void {
+    const number = this.nextNpcNumber++;
+    const player = new Player(
+      `npc-${number}`,
+      getNpcName(number),
+      this.getRandomSpawnPosition(),
+      this.random.int(0, SHIP_CLASSES.length - 1),
+      1, // Initial HP
+      2, // Initial cannons (1 per side)
+      this.random
+    );
+    
+    this.addPlayer(player);
+    this.npcs.set(player.id, new NpcBrain(player, this.npcDifficulty, this.random));
+  }
+  
+  private removeNpc(playerId: string): void {
+    this.npcs.delete(playerId);
+    this.removePlayer(playerId);
+    
+    // Clients only hear about ships leaving through entity:removed
+    for (const player of this.players.values()) {
+      this.emitToPlayer(player.id, 'entity:removed', { id: playerId, removed: true });
+    }
+  }
+  
+  // Switch to another game mode. Set it up before players join so they spawn
+  // where the mode wants them.
+  setGameMode(type: GameModeType): void {
+    this.mode = createGameMode(type, this);
+    this.mode.start();
+    console.log(`Game mode: ${type}`);
+  }
+  
+  getGameMode(): GameModeType {
+    return this.mode.type;
+  }
+  
+  // Match progress for clients (null when the mode has no matches)
+  getScoreboard(): Scoreboard | null {
+    return this.mode.getScoreboard();
+  }
+  
+  // Ships with a price on their head
+  getBounties(): Bounty[] {
+    return this.bounties.getBounties();
+  }
+  
+  // Every ship (sunk ones too) by leaderboard score, best first
+  getRankings(): Array<{ player: Player, score: number }> {
+    return rankPlayers(this.players.values());
+  }
+  
+  // Where the game mode wants a ship to head (used by NPCs)
+  getObjective(player: Player): Vector2 | null {
+    return this.mode.getObjective(player);
+  }
+  
+  // Place a resource the game mode manages (e.g. the treasure)
+  spawnResourceAt(type: ResourceType, position: Vector2): Resource {
+    const resource = new Resource(this.random.uuid(), position, type, 1);
+    this.addResource(resource);
+    return resource;
+  }
+  
+  despawnResource(resource: Resource): void {
+    if (this.resources.has(resource.id)) {
+      this.removeResource(resource);
+    }
+  }
+  
+  // Whether a player is one of the world's NPCs
+  isNpc(playerId: string): boolean {
+    return this.npcs.has(playerId);
+  }
+  
+  // Every ship afloat in the world, players' and NPCs'
+  getShips(): Player[] {
+    return Array.from(this.players.values()).filter(player => !player.sunk);
+  }
+  
+  // Simulated milliseconds since the world was created
+  getSimulationTime(): number {
+    return this.simulationTime;
+  }
+  
   // Add method to set maximum wood count
   setMaxWoodCount(maxCount: number): void {
     this.maxWoodCount = maxCount;
     console.log(`Maximum wood count set to ${maxCount}`);
   }
   
+  // Use one HP step per extra pair of cannons for every class (null = each class's own)
+  setCannonUnlockHpStep(step: number | null): void {
+    this.cannonUnlockHpStep = step;
+    for (const player of this.players.values()) {
+      player.cannonUnlockHpStep = step;
+    }
+    console.log(`Cannon unlock HP step set to ${step ?? 'class default'}`);
+  }
+  
   // Get current configuration (useful for debugging)
-  getGameConfiguration(): object {
+  getGameConfiguration(): GameConfiguration {
     return {
       initialRockCount: this.initialRockCount,
       currentRockCount: this.rocks.size,
@@ -826,7 +1662,11 @@ export class World {
       maxWoodCount: this.maxWoodCount,
       currentWoodCount: this.getWoodCount(),
       resourceCount: this.resources.size,
-      playerCount: this.players.size
+      playerCount: this.players.size,
+      maxRewindMs: this.maxRewindMs,
+      cannonStaggerMs: this.cannonStaggerMs,
+      npcCount: this.npcCount,
+      npcDifficulty: this.npcDifficulty
     };
   }
 } 
\ No newline at end of file
@@ -4,6 +4,8 @@ export abstract class Entity {
   id: string;
   position: Vector2;
   size: number;
+  netId: number = 0; // Short network id assigned by the World (0 = unassigned)
+  version: number = 0; // Bumped whenever serialized state changes
   
   constructor(id: string, position: Vector2, size: number) {
     this.id = id;
@@ -11,6 +13,12 @@ export abstract class Entity {
     this.size = size;
   }
   
+  // Flag that serialized state changed so it gets resent to clients.
+  // Anything that changes what serialize() returns must call this.
+  markDirty(): void {
+    this.version++;
+  }
+  
   // Calculate distance to another entity
   distanceTo(other: Entity): number {
     const dx = this.position.x - other.position.x;
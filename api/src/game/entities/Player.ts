@@ -1,83 +1,234 @@
 import { Entity } from './Entity';
-import { Vector2, PlayerControls, VisibleEntities, EntityData } from '../types';
+import { Vector2, PlayerControls, EntityData, BroadsideSide } from '../types';
+import { Random } from '../Random';
+import { ShipClass, getShipClass } from '../ShipClasses';
+import { AMMO_TYPES, AmmoCounts, AmmoDefinition, AmmoStatus, AmmoType, createAmmoCounts, getAmmo } from '../Ammo';
+import { UpgradeLevels, UpgradeOffer, UpgradeType, createUpgradeLevels, getUpgrade } from '../Upgrades';
 
 export class Player extends Entity {
   name: string;
   angle: number = 0;
-  speed: number = 300; // Pixels per second
-  rotationSpeed: number = 2; // Radians per second
+  velocity: Vector2 = { x: 0, y: 0 }; // Pixels per second
   hp: number;
   maxHp: number;
   shipType: number;
+  shipClass: ShipClass; // Speed, handling, guns and growth for this ship type
   cannons: number;
-  cannonCooldown: number = 0;
-  cannonCooldownTime: number = 2000; // 2 seconds between shots
-  controls: PlayerControls = { moveForward: false, rotateLeft: false, rotateRight: false };
-  lastKnownEntities: VisibleEntities = { ships: [], resources: [], rocks: [], projectiles: [] };
+  cannonCooldowns: Record<BroadsideSide, number> = { port: 0, starboard: 0 }; // Each side reloads on its own (ms left)
+  controls: PlayerControls = { moveForward: false, rotateLeft: false, rotateRight: false, brake: false };
+  lastInputSequence: number = 0; // Sequence number of the last controls input applied
+  lastInputTime: number = 0; // Client timestamp of that input
+  kills: number = 0;
+  deaths: number = 0;
+  killStreak: number = 0; // Kills since the ship last sank
+  bountyScore: number = 0; // Leaderboard score from bounties claimed
+  damageDealt: number = 0; // HP taken off other ships
+  woodCollected: number = 0;
+  peakHp: number; // Highest HP reached, in any life
+  lifeMs: number = 0; // Time afloat since the ship last sank (or joined)
+  longestLifeMs: number = 0; // Of the lives that are over
+  knownEntityVersions: Map<string, number> = new Map(); // Entity versions last sent to this player's client
+  lastSentVersion: number = -1; // This player's own version last sent to their client
+  lastSentInputSequence: number = 0; // lastInputSequence last echoed to their client
+  upgrades: UpgradeLevels = createUpgradeLevels(); // Levels picked from chests, lost on death
+  upgradeOffer: UpgradeOffer | null = null; // Chest offer waiting for the player's pick
+  queuedUpgradeOffers: number = 0; // Chests collected while an offer was still open
+  ammoType: AmmoType = 'round'; // Ammo loaded for the next broadside
+  ammo: AmmoCounts = createAmmoCounts(); // Special ammo carried (round shot is unlimited)
+  slowTimer: number = 0; // Chain shot tangled the rigging: ms left sailing at slowFactor
+  slowFactor: number = 1;
+  carryingTreasure: boolean = false; // Capture-the-treasure: weighed down by the chest
+  sunk: boolean = false; // Out of the match until the game mode brings it back (no respawns in battle royale)
+  cannonUnlockHpStep: number | null = null; // Overrides the class's HP per extra pair of cannons (set by World)
   
   // Define base size as a static constant
   private static readonly BASE_SIZE: number = 20; // Changed from 20 to 30
   
+  // Both sides of the ship, for firing full broadsides
+  static readonly BROADSIDES: BroadsideSide[] = ['port', 'starboard'];
+  
+  // Share of normal speed a ship carrying the treasure can sail at
+  static readonly TREASURE_SPEED_FACTOR: number = 0.75;
+  
+  // Sailing physics, mirrored in client/src/game/prediction/ShipPredictor.ts.
+  // Top speed and turn rate come from the ship class and are for a BASE_SIZE
+  // ship; bigger ships handle worse.
+  static readonly BRAKE_DECELERATION: number = 600; // Slowing down while still moving forward (px/s^2)
+  static readonly REVERSE_THRUST: number = 120; // Backing up once stopped (px/s^2)
+  static readonly WATER_DRAG: number = 1.2; // Fraction of forward speed lost per second (exponential)
+  static readonly KEEL_DRAG: number = 4; // Same for sideways drift, so ships don't slide like ice
+  static readonly MAX_REVERSE_SPEED: number = 100; // Backwards (px/s)
+  static readonly STOP_SPEED: number = 1; // Coasting slower than this comes to rest (px/s)
+  static readonly WIND_EFFECT: number = 0.4; // Thrust and top speed gained (lost) sailing dead downwind (upwind) in a full gale
+  
   constructor(
     id: string,
     name: string,
     position: Vector2,
     shipType: number,
     hp: number,
-    cannons: number
+    cannons: number,
+    random: Random = new Random()
   ) {
     // Use the static BASE_SIZE constant
     super(id, position, Player.BASE_SIZE);
     
     this.name = name;
     this.shipType = shipType;
+    this.shipClass = getShipClass(shipType);
     this.hp = hp;
     this.maxHp = hp;
+    this.peakHp = hp;
     this.cannons = cannons;
     
     // Random starting angle
-    this.angle = Math.random() * Math.PI * 2;
+    this.angle = random.next() * Math.PI * 2;
   }
   
-  update(deltaTime: number): void {
+  // `wind` is the local wind (see Wind.sampleAt)
+  update(deltaTime: number, wind: Vector2 = { x: 0, y: 0 }): void {
     const deltaSeconds = deltaTime / 1000;
+    this.lifeMs += deltaTime;
+    const prevX = this.position.x;
+    const prevY = this.position.y;
+    const prevAngle = this.angle;
+    const prevVelocityX = this.velocity.x;
+    const prevVelocityY = this.velocity.y;
+    
+    // Bigger ships accelerate and turn more slowly
+    const handling = Player.getHandling(this.size);
+    const speedFactor = this.getSpeedFactor();
+    const turnRate = this.getTurnRate();
     
     // Handle rotation
     if (this.controls.rotateLeft) {
-      this.angle -= this.rotationSpeed * deltaSeconds;
+      this.angle -= turnRate * handling * deltaSeconds;
     }
     if (this.controls.rotateRight) {
-      this.angle += this.rotationSpeed * deltaSeconds;
+      this.angle += turnRate * handling * deltaSeconds;
     }
     
     // Normalize angle
     this.angle = this.angle % (Math.PI * 2);
     if (this.angle < 0) this.angle += Math.PI * 2;
     
-    // Handle movement
+    // Split velocity into the part along the hull and the sideways drift
+    const headingX = Math.cos(this.angle);
+    const headingY = Math.sin(this.angle);
+    let forwardSpeed = this.velocity.x * headingX + this.velocity.y * headingY;
+    let sideSpeed = this.velocity.y * headingX - this.velocity.x * headingY;
+    
+    // Wind behind the sails helps, wind on the bow hinders
+    const sailing = 1 + Player.WIND_EFFECT * (wind.x * headingX + wind.y * headingY);
+    
+    // Sails push forward (just enough to balance drag at the class's top speed);
+    // the brake slows the ship and then backs it up
     if (this.controls.moveForward) {
-      const dx = Math.cos(this.angle) * this.speed * deltaSeconds;
-      const dy = Math.sin(this.angle) * this.speed * deltaSeconds;
-      
-      this.position.x += dx;
-      this.position.y += dy;
+      forwardSpeed += this.shipClass.maxSpeed * Player.WATER_DRAG * handling * sailing * speedFactor * deltaSeconds;
+    }
+    if (this.controls.brake) {
+      if (forwardSpeed > 0) {
+        forwardSpeed = Math.max(0, forwardSpeed - Player.BRAKE_DECELERATION * handling * deltaSeconds);
+      } else {
+        forwardSpeed -= Player.REVERSE_THRUST * handling * deltaSeconds;
+      }
+    }
+    
+    // Water drag lets ships coast to a stop
+    forwardSpeed *= Math.exp(-Player.WATER_DRAG * deltaSeconds);
+    sideSpeed *= Math.exp(-Player.KEEL_DRAG * deltaSeconds);
+    forwardSpeed = Math.max(-Player.MAX_REVERSE_SPEED, Math.min(forwardSpeed, this.shipClass.maxSpeed * sailing * speedFactor));
+    
+    this.velocity.x = headingX * forwardSpeed - headingY * sideSpeed;
+    this.velocity.y = headingY * forwardSpeed + headingX * sideSpeed;
+    
+    // Settle instead of drifting forever at a crawl
+    if (Math.hypot(this.velocity.x, this.velocity.y) < Player.STOP_SPEED && !this.controls.moveForward && !this.controls.brake) {
+      this.velocity.x = 0;
+      this.velocity.y = 0;
+    }
+    
+    this.position.x += this.velocity.x * deltaSeconds;
+    this.position.y += this.velocity.y * deltaSeconds;
+    
+    // Update cannon cooldowns
+    for (const side of Player.BROADSIDES) {
+      if (this.cannonCooldowns[side] > 0) {
+        this.cannonCooldowns[side] = Math.max(0, this.cannonCooldowns[side] - deltaTime);
+      }
     }
     
-    // Update cannon cooldown
-    if (this.cannonCooldown > 0) {
-      this.cannonCooldown -= deltaTime;
-      if (this.cannonCooldown < 0) this.cannonCooldown = 0;
+    // Rigging repaired
+    if (this.slowTimer > 0) {
+      this.slowTimer -= deltaTime;
+      if (this.slowTimer <= 0) {
+        this.slowTimer = 0;
+        this.slowFactor = 1;
+        this.markDirty();
+      }
     }
     
     // Ensure player stays within world bounds (assuming world is 0,0 to worldWidth,worldHeight)
-    this.position.x = Math.max(this.size, Math.min(this.position.x, 11000 - this.size));
-    this.position.y = Math.max(this.size, Math.min(this.position.y, 11000 - this.size));
+    // Running into the edge kills the speed going into it
+    const maxX = 11000 - this.size;
+    const maxY = 11000 - this.size;
+    if (this.position.x < this.size || this.position.x > maxX) {
+      this.position.x = Math.max(this.size, Math.min(this.position.x, maxX));
+      this.velocity.x = 0;
+    }
+    if (this.position.y < this.size || this.position.y > maxY) {
+      this.position.y = Math.max(this.size, Math.min(this.position.y, maxY));
+      this.velocity.y = 0;
+    }
+    
+    // Only moving or turning changes what clients see
+    if (this.position.x !== prevX || this.position.y !== prevY || this.angle !== prevAngle ||
+        this.velocity.x !== prevVelocityX || this.velocity.y !== prevVelocityY) {
+      this.markDirty();
+    }
+  }
+  
+  // Knock the ship (e.g. when ramming), in px/s
+  applyImpulse(x: number, y: number): void {
+    this.velocity.x += x;
+    this.velocity.y += y;
+    this.markDirty();
+  }
+  
+  // Drop any speed toward a point we've run into, keeping the rest so the ship
+  // slides along the obstacle
+  stopMovingToward(point: Vector2): void {
+    const dx = point.x - this.position.x;
+    const dy = point.y - this.position.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance === 0) return;
+    
+    const inward = (this.velocity.x * dx + this.velocity.y * dy) / distance;
+    if (inward <= 0) return;
+    
+    this.velocity.x -= inward * dx / distance;
+    this.velocity.y -= inward * dy / distance;
+    this.markDirty();
+  }
+  
+  // Stop dead (e.g. after respawning somewhere else)
+  stop(): void {
+    this.velocity.x = 0;
+    this.velocity.y = 0;
+    this.markDirty();
+  }
+  
+  // Thrust/turn multiplier for a ship of the given size: 1 at BASE_SIZE, falling off slowly
+  static getHandling(size: number): number {
+    return Math.pow(Player.BASE_SIZE / Math.max(size, Player.BASE_SIZE), 0.25);
   }
   
   // Add HP to the player
   addHp(amount: number): void {
     this.hp += amount;
     this.maxHp = this.hp; // Max HP increases with current HP
+    this.peakHp = Math.max(this.peakHp, this.hp);
+    this.markDirty();
     
     // Increase size based on HP
     this.updateSize();
@@ -87,8 +238,11 @@ export class Player extends Entity {
   }
   
   // Take damage
+  // Sturdier hulls and armor upgrades take less from each hit
   takeDamage(amount: number): boolean {
-    this.hp -= amount;
+    const armor = 1 - this.upgrades.armor * getUpgrade('armor').perLevel;
+    this.hp -= amount / this.shipClass.hullStrength * armor;
+    this.markDirty();
     
     // Check if player died
     if (this.hp <= 0) {
@@ -107,25 +261,148 @@ export class Player extends Entity {
   
   // Update ship size based on HP
   updateSize(): void {
-    // Use the static BASE_SIZE constant and cap at 500
-    this.size = Math.min(Player.BASE_SIZE + (this.hp * 2), 500);
+    // Grow from BASE_SIZE along the class's growth curve
+    const growth = this.shipClass.growth;
+    this.size = Math.min(Player.BASE_SIZE + (this.hp * growth.sizePerHp), growth.maxSize);
+    this.markDirty();
   }
   
   // Update number of cannons based on HP
   updateCannons(): void {
-    // Every 5 HP gives +1 cannon per side (so +2 total)
-    const newCannons = 2 + (Math.floor(this.hp / 5) * 2);
-    this.cannons = Math.max(this.cannons, newCannons);
+    // Every few HP (depending on class) gives +1 cannon per side (so +2 total)
+    const step = this.cannonUnlockHpStep ?? this.shipClass.growth.cannonHpStep;
+    const newCannons = 2 + (Math.floor(this.hp / step) * 2);
+    if (newCannons > this.cannons) {
+      this.cannons = newCannons;
+      this.markDirty();
+    }
+  }
+  
+  // Check if the cannons on one side are loaded
+  canFire(side: BroadsideSide): boolean {
+    return this.cannonCooldowns[side] <= 0;
+  }
+  
+  // Start one side's cooldown after firing (heavier ammo takes longer to load)
+  startCooldown(side: BroadsideSide, multiplier: number = 1): void {
+    this.cannonCooldowns[side] = this.getCannonCooldownMs() * multiplier;
+  }
+  
+  // Class stats with chest upgrades applied
+  getTurnRate(): number {
+    return this.shipClass.turnRate * (1 + this.upgrades.turning * getUpgrade('turning').perLevel);
+  }
+  
+  getCannonCooldownMs(): number {
+    return this.shipClass.cannonCooldownMs * (1 - this.upgrades.reload * getUpgrade('reload').perLevel);
+  }
+  
+  getProjectileDamage(): number {
+    return 1 + this.upgrades.damage * getUpgrade('damage').perLevel;
+  }
+  
+  // Multiplier on how long (and so how far) cannonballs fly
+  getProjectileRange(): number {
+    return 1 + this.upgrades.range * getUpgrade('range').perLevel;
+  }
+  
+  // Raise an upgrade by one level; false if it's already maxed out
+  applyUpgrade(type: UpgradeType): boolean {
+    if (this.upgrades[type] >= getUpgrade(type).maxLevel) return false;
+    
+    this.upgrades[type]++;
+    return true;
+  }
+  
+  // Fraction of normal speed the ship can sail at (chain shot and carrying the
+  // treasure slow it)
+  getSpeedFactor(): number {
+    const slow = this.slowTimer > 0 ? this.slowFactor : 1;
+    return this.carryingTreasure ? slow * Player.TREASURE_SPEED_FACTOR : slow;
+  }
+  
+  setCarryingTreasure(carrying: boolean): void {
+    this.carryingTreasure = carrying;
+    this.markDirty();
+  }
+  
+  // Slow the ship down for a while; a stronger or longer slow replaces a weaker one
+  applySlow(factor: number, durationMs: number): void {
+    this.slowFactor = this.slowTimer > 0 ? Math.min(this.slowFactor, factor) : factor;
+    this.slowTimer = Math.max(this.slowTimer, durationMs);
+    this.markDirty();
+  }
+  
+  hasAmmo(type: AmmoType): boolean {
+    const capacity = getAmmo(type).capacity;
+    return capacity === null || this.ammo[type] > 0;
+  }
+  
+  // Load a different ammo type; false if we have none of it
+  selectAmmo(type: AmmoType): boolean {
+    if (!this.hasAmmo(type)) return false;
+    
+    this.ammoType = type;
+    return true;
+  }
+  
+  // Take one broadside's worth of the loaded ammo, going back to round shot
+  // once the last of it is used
+  useAmmo(): AmmoDefinition {
+    const ammo = getAmmo(this.ammoType);
+    if (ammo.capacity !== null) {
+      this.ammo[ammo.type]--;
+      if (this.ammo[ammo.type] <= 0) {
+        this.ammoType = 'round';
+      }
+    }
+    return ammo;
+  }
+  
+  // Top up every kind of special ammo from a crate
+  refillAmmo(): void {
+    for (const ammo of AMMO_TYPES) {
+      if (ammo.capacity === null) continue;
+      this.ammo[ammo.type] = Math.min(this.ammo[ammo.type] + ammo.crateAmount, ammo.capacity);
+    }
+  }
+  
+  getAmmoStatus(): AmmoStatus {
+    return {
+      selected: this.ammoType,
+      ammo: AMMO_TYPES.map(ammo => ({
+        type: ammo.type,
+        name: ammo.name,
+        count: ammo.capacity === null ? null : this.ammo[ammo.type],
+        capacity: ammo.capacity
+      }))
+    };
+  }
+  
+  // Back to round shot with empty lockers and free rigging (on death)
+  resetAmmo(): void {
+    this.ammoType = 'round';
+    this.ammo = createAmmoCounts();
+    this.slowTimer = 0;
+    this.slowFactor = 1;
+  }
+  
+  // The ship sank: its current life is over
+  endLife(): void {
+    this.longestLifeMs = this.getLongestLifeMs();
+    this.lifeMs = 0;
   }
   
-  // Check if player can fire cannons
-  canFire(): boolean {
-    return this.cannonCooldown <= 0;
+  // Longest time the ship has stayed afloat, counting the life it's on
+  getLongestLifeMs(): number {
+    return Math.max(this.longestLifeMs, this.lifeMs);
   }
   
-  // Start cannon cooldown after firing
-  startCooldown(): void {
-    this.cannonCooldown = this.cannonCooldownTime;
+  // Lose every upgrade and any offers still waiting (on death)
+  resetUpgrades(): void {
+    this.upgrades = createUpgradeLevels();
+    this.upgradeOffer = null;
+    this.queuedUpgradeOffers = 0;
   }
   
   serialize(): EntityData {
@@ -135,6 +412,9 @@ export class Player extends Entity {
       y: this.position.y,
       type: 'ship',
       angle: this.angle,
+      vx: this.velocity.x,
+      vy: this.velocity.y,
+      speedPercent: Math.round(this.getSpeedFactor() * 100),
       hp: this.hp,
       size: this.size,
       shipType: this.shipType,
@@ -1,13 +1,19 @@
 import { Entity } from './Entity';
 import { Vector2, EntityData } from '../types';
+import { AmmoType, getAmmo } from '../Ammo';
 
 export class Projectile extends Entity {
   angle: number;
   speed: number;
   damage: number;
   ownerId: string;
+  ammoType: AmmoType;
   lifetime: number;
-  maxLifetime: number = 3000; // 3 seconds max travel time
+  maxLifetime: number; // Travel time before it drops into the sea (ms)
+  rewindMs: number = 0; // Ships are hit-tested this far in the past (shooter's latency)
+  
+  // Sideways drift in a full gale (px/s), mirrored in the client's projectile simulation
+  static readonly WIND_DRIFT: number = 60;
   
   constructor(
     id: string,
@@ -15,26 +21,33 @@ export class Projectile extends Entity {
     angle: number,
     speed: number = 250, // Pixels per second
     damage: number = 1,
-    ownerId: string
+    ownerId: string,
+    ammoType: AmmoType = 'round'
   ) {
-    // Projectiles are small
-    super(id, position, 5);
+    // Projectiles are small; size and range depend on the ammo
+    const ammo = getAmmo(ammoType);
+    super(id, position, ammo.size);
     this.angle = angle;
     this.speed = speed;
     this.damage = damage;
     this.ownerId = ownerId;
+    this.ammoType = ammoType;
     this.lifetime = 0;
+    this.maxLifetime = ammo.lifetimeMs;
   }
   
-  update(deltaTime: number): void {
+  // `wind` is the local wind (see Wind.sampleAt)
+  update(deltaTime: number, wind: Vector2 = { x: 0, y: 0 }): void {
     const deltaSeconds = deltaTime / 1000;
     
-    // Move in the direction of the angle
-    this.position.x += Math.cos(this.angle) * this.speed * deltaSeconds;
-    this.position.y += Math.sin(this.angle) * this.speed * deltaSeconds;
+    // Move in the direction of the angle, blown along by the wind
+    this.position.x += (Math.cos(this.angle) * this.speed + wind.x * Projectile.WIND_DRIFT) * deltaSeconds;
+    this.position.y += (Math.sin(this.angle) * this.speed + wind.y * Projectile.WIND_DRIFT) * deltaSeconds;
     
     // Increase lifetime
     this.lifetime += deltaTime;
+    
+    this.markDirty();
   }
   
   // Check if projectile has expired
@@ -49,7 +62,9 @@ export class Projectile extends Entity {
       y: this.position.y,
       type: 'projectile',
       angle: this.angle,
-      ownerId: this.ownerId
+      speed: this.speed,
+      ownerId: this.ownerId,
+      ammoType: this.ammoType
     };
   }
 } 
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { Entity } from './Entity';
 import { Vector2, EntityData } from '../types';
 
-export type ResourceType = 'wood' | 'chest';
+export type ResourceType = 'wood' | 'chest' | 'ammo' | 'treasure'; // Only capture-the-treasure has a treasure
 
 export class Resource extends Entity {
   resourceType: ResourceType;
@@ -9,7 +9,7 @@ export class Resource extends Entity {
   
   constructor(id: string, position: Vector2, resourceType: ResourceType, value: number = 1) {
     // Size based on resource type
-    const size = resourceType === 'wood' ? 15 : 10;
+    const size = resourceType === 'wood' ? 15 : resourceType === 'treasure' ? 20 : 10;
     super(id, position, size);
     
     this.resourceType = resourceType;
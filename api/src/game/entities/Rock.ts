@@ -1,25 +1,48 @@
 import { Entity } from './Entity';
 import { Vector2, EntityData } from '../types';
+import { RockType, RockVariant, getRockVariant } from '../RockVariants';
 
 export class Rock extends Entity {
   hp: number;
   maxHp: number;
+  rockType: RockType;
+  variant: RockVariant; // Loot and special behaviour for this kind of rock
+  private regrowTimer: number = 0; // ms until the next HP grows back
   
-  constructor(id: string, position: Vector2, size: number = 40, hp: number = 5) {
+  constructor(id: string, position: Vector2, size: number = 40, hp: number = 5, rockType: RockType = 'stone') {
     super(id, position, size);
     this.hp = hp;
     this.maxHp = hp;
+    this.rockType = rockType;
+    this.variant = getRockVariant(rockType);
   }
   
   takeDamage(amount: number): boolean {
     this.hp -= amount;
+    this.markDirty();
+    
+    // Regrowing starts over after each hit
+    this.regrowTimer = this.variant.regrowIntervalMs;
     
     // Return true if rock is destroyed
     return this.hp <= 0;
   }
   
+  // Whether this rock heals over time and has HP to heal
+  isRegrowing(): boolean {
+    return this.variant.regrowIntervalMs > 0 && this.hp < this.maxHp;
+  }
+  
   update(deltaTime: number): void {
-    // Rocks are static, no update logic needed
+    // Only regrowing rocks change; the rest are static
+    if (!this.isRegrowing()) return;
+    
+    this.regrowTimer -= deltaTime;
+    if (this.regrowTimer <= 0) {
+      this.hp = Math.min(this.maxHp, this.hp + 1);
+      this.regrowTimer = this.variant.regrowIntervalMs;
+      this.markDirty();
+    }
   }
   
   serialize(): EntityData {
@@ -28,9 +51,10 @@ export class Rock extends Entity {
       x: this.position.x,
       y: this.position.y,
       type: 'rock',
+      rockType: this.rockType,
       size: this.size,
       hp: this.hp,
       maxHp: this.maxHp
     };
   }
-} 
\ No newline at end of file
+}
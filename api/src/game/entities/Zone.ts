@@ -0,0 +1,66 @@
+import { Entity } from './Entity';
+import { Vector2, EntityData } from '../types';
+
+// Who holds (or is taking) a zone: an alliance or team, or a lone ship
+export interface ZoneOwner {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// A king-of-the-hill control zone. Capture logic lives in the game mode; the
+// zone only holds its state and tells clients when it changes.
+export class Zone extends Entity {
+  name: string;
+  owner: ZoneOwner | null = null;
+  capturer: ZoneOwner | null = null; // Who the capture progress is towards
+  progress: number = 0; // 0-1, the zone changes hands at 1
+  contested: boolean = false; // Ships of more than one side are inside
+  
+  constructor(id: string, position: Vector2, radius: number, name: string) {
+    super(id, position, radius);
+    this.name = name;
+  }
+  
+  update(deltaTime: number): void {
+    // Zones only change as the game mode captures them
+  }
+  
+  setOwner(owner: ZoneOwner | null): void {
+    this.owner = owner;
+    this.markDirty();
+  }
+  
+  setCapture(capturer: ZoneOwner | null, progress: number): void {
+    // Progress is sent in whole percent, so smaller steps don't need resending
+    const changed = capturer?.id !== this.capturer?.id || Math.round(progress * 100) !== Math.round(this.progress * 100);
+    this.capturer = capturer;
+    this.progress = progress;
+    if (changed) {
+      this.markDirty();
+    }
+  }
+  
+  setContested(contested: boolean): void {
+    if (contested === this.contested) return;
+    
+    this.contested = contested;
+    this.markDirty();
+  }
+  
+  serialize(): EntityData {
+    return {
+      id: this.id,
+      x: this.position.x,
+      y: this.position.y,
+      type: 'zone',
+      size: this.size,
+      name: this.name,
+      owner: this.owner?.name || '',
+      ownerColor: this.owner?.color || '',
+      capturerColor: this.capturer?.color || '',
+      progress: Math.round(this.progress * 100),
+      contested: this.contested ? 1 : 0
+    };
+  }
+}
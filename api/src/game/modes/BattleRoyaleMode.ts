@@ -0,0 +1,263 @@
+import { World } from '../World';
+import { Player } from '../entities/Player';
+import { Vector2 } from '../types';
+import { MatchMode } from './MatchMode';
+import { Scoreboard, ScoreboardEntry } from './GameMode';
+
+// Battle royale: ships gather in the lobby until enough are in, then a match
+// starts with everyone back at base stats. A storm closes in over the map in
+// phases, hurting every ship caught outside its circle, and sunk ships stay
+// out until the next match. The last ship afloat wins.
+
+// One step of the storm: it holds still for waitMs while the next safe zone is
+// shown, then closes in on that zone over shrinkMs
+export interface StormPhase {
+  waitMs: number;
+  shrinkMs: number;
+  radius: number; // Of the safe zone it closes in to
+  damagePerSecond: number; // To ships outside the storm circle during this phase
+}
+
+export const STORM_PHASES: StormPhase[] = [
+  { waitMs: 60000, shrinkMs: 60000, radius: 3500, damagePerSecond: 0.1 },
+  { waitMs: 45000, shrinkMs: 45000, radius: 2000, damagePerSecond: 0.2 },
+  { waitMs: 40000, shrinkMs: 40000, radius: 1000, damagePerSecond: 0.4 },
+  { waitMs: 30000, shrinkMs: 30000, radius: 400, damagePerSecond: 0.8 },
+  { waitMs: 20000, shrinkMs: 20000, radius: 0, damagePerSecond: 1.5 }
+];
+
+interface Circle {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// The storm as sent to clients, who draw the circle closing in between
+// scoreboards from the timings
+export interface StormStatus {
+  phase: number; // Index into STORM_PHASES
+  phases: number;
+  shrinking: boolean;
+  phaseTimeLeftMs: number; // Until the current wait or shrink ends (0 once the last phase is over)
+  shrinkMs: number;
+  damagePerSecond: number;
+  from: Circle; // The storm circle now, or where the current shrink started from
+  to: Circle; // The safe zone it's closing in to
+}
+
+export interface RoyaleScoreboard extends Scoreboard {
+  storm: StormStatus | null; // null outside matches
+  alive: string[]; // Ids of the ships still afloat in the match
+}
+
+export class BattleRoyaleMode extends MatchMode {
+  readonly type = 'royale';
+  
+  // Ships (NPCs included) needed before the lobby counts down to a match
+  static readonly MIN_SHIPS: number = 4;
+  static readonly LOBBY_COUNTDOWN_MS: number = 20000;
+  static readonly INTERMISSION_MS: number = 15000;
+  
+  // How long the match goes on once the storm has closed completely, before the
+  // healthiest survivor is declared the winner
+  static readonly OVERTIME_MS: number = 60000;
+  
+  // The scoreboard lists this many ships, by ships sunk this match
+  static readonly SCOREBOARD_SIZE: number = 10;
+  
+  private phase: number = 0;
+  private shrinking: boolean = false;
+  private phaseTimer: number = 0; // ms left in the current wait or shrink
+  private from: Circle = { x: 0, y: 0, radius: 0 };
+  private to: Circle = { x: 0, y: 0, radius: 0 };
+  private entrants: Map<string, string> = new Map(); // Id -> name of every ship that started the match
+  private kills: Map<string, number> = new Map(); // Id -> ships sunk this match
+  private eliminated: Set<Player> = new Set(); // Sunk (or joined late) and waiting for the next match
+  
+  constructor(world: World) {
+    const stormMs = STORM_PHASES.reduce((total, phase) => total + phase.waitMs + phase.shrinkMs, 0);
+    super(world, stormMs + BattleRoyaleMode.OVERTIME_MS, BattleRoyaleMode.INTERMISSION_MS, null, BattleRoyaleMode.LOBBY_COUNTDOWN_MS);
+  }
+  
+  protected canStartMatch(): boolean {
+    return this.world.getShips().length >= BattleRoyaleMode.MIN_SHIPS;
+  }
+  
+  // Everyone starts over at base stats somewhere on the map, with the storm
+  // circle around the whole of it
+  protected onMatchStart(): void {
+    this.entrants.clear();
+    this.kills.clear();
+    for (const ship of this.world.getShips()) {
+      this.world.respawnShip(ship);
+      this.entrants.set(ship.id, ship.name);
+    }
+    
+    const { width, height } = this.world;
+    this.from = { x: width / 2, y: height / 2, radius: Math.hypot(width, height) / 2 };
+    this.phase = 0;
+    this.startWaiting();
+  }
+  
+  protected updateMatch(deltaTime: number): void {
+    this.advanceStorm(deltaTime);
+    
+    // The storm batters ships outside its circle
+    const circle = this.getStormCircle();
+    const damage = STORM_PHASES[this.phase].damagePerSecond * deltaTime / 1000;
+    for (const ship of this.world.getShips()) {
+      if (distance(ship.position, circle) > circle.radius) {
+        this.world.damageShip(ship, damage, 'storm');
+      }
+    }
+    
+    // Last ship afloat wins (nobody, if the last ones went down together)
+    const alive = this.world.getShips();
+    if (alive.length <= 1) {
+      this.endMatch(alive[0]?.name || null);
+    }
+  }
+  
+  // The match ran out: the healthiest survivor takes it
+  protected getTimeUpWinner(): string | null {
+    const alive = this.world.getShips().sort((a, b) => b.hp - a.hp);
+    return alive[0]?.name || null;
+  }
+  
+  // Sunk ships sail again in the lobby
+  protected onLobbyOpen(): void {
+    for (const player of this.eliminated) {
+      this.world.respawnShip(player);
+    }
+    this.eliminated.clear();
+  }
+  
+  // Ships that turn up mid-match watch until the next one
+  onPlayerAdded(player: Player): void {
+    if (this.state === 'playing') {
+      this.eliminated.add(player);
+      this.world.eliminateShip(player);
+    }
+  }
+  
+  onPlayerRemoved(player: Player): void {
+    this.eliminated.delete(player);
+  }
+  
+  onShipSunk(player: Player, killer: Player | null): void {
+    if (this.state !== 'playing') return;
+    
+    this.eliminated.add(player);
+    if (killer) {
+      this.kills.set(killer.id, (this.kills.get(killer.id) || 0) + 1);
+    }
+    
+    const left = this.world.getShips().length - 1;
+    this.world.broadcast('game:killfeed', `${player.name} is out! ${left} ship${left === 1 ? '' : 's'} left`);
+  }
+  
+  // No respawning during a match
+  canRespawn(player: Player): boolean {
+    return this.state !== 'playing';
+  }
+  
+  // Get into the next safe zone before the storm does
+  getObjective(player: Player): Vector2 | null {
+    if (this.state !== 'playing') return null;
+    
+    return distance(player.position, this.to) > this.to.radius * 0.7 ? { x: this.to.x, y: this.to.y } : null;
+  }
+  
+  protected getScores(): ScoreboardEntry[] {
+    return Array.from(this.entrants)
+      .map(([id, name]) => ({ id, name, color: null, score: this.kills.get(id) || 0 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, BattleRoyaleMode.SCOREBOARD_SIZE);
+  }
+  
+  getScoreboard(): RoyaleScoreboard {
+    const playing = this.state === 'playing';
+    return {
+      ...super.getScoreboard(),
+      storm: playing ? this.getStormStatus() : null,
+      alive: playing ? this.world.getShips().map(ship => ship.id) : []
+    };
+  }
+  
+  // Count down the current wait or shrink and move on to the next step
+  private advanceStorm(deltaTime: number): void {
+    this.phaseTimer -= deltaTime;
+    if (this.phaseTimer > 0) return;
+    
+    if (!this.shrinking) {
+      this.shrinking = true;
+      this.phaseTimer = STORM_PHASES[this.phase].shrinkMs;
+      this.world.broadcast('game:killfeed', 'The storm is closing in!');
+      this.sendScoreboard();
+      return;
+    }
+    
+    // Closed in on the safe zone; the next phase picks a new one inside it
+    this.from = this.to;
+    this.shrinking = false;
+    if (this.phase + 1 < STORM_PHASES.length) {
+      this.phase++;
+      this.startWaiting();
+    } else {
+      this.phaseTimer = Infinity;
+    }
+    this.sendScoreboard();
+  }
+  
+  // Hold the storm where it is and show where it will close in to next
+  private startWaiting(): void {
+    const phase = STORM_PHASES[this.phase];
+    this.shrinking = false;
+    this.phaseTimer = phase.waitMs;
+    this.to = this.pickSafeZone(phase.radius);
+  }
+  
+  // A random circle inside the current storm circle, kept on the map
+  private pickSafeZone(radius: number): Circle {
+    const random = this.world.random;
+    const angle = random.next() * Math.PI * 2;
+    const offset = Math.sqrt(random.next()) * Math.max(0, this.from.radius - radius);
+    const marginX = Math.min(radius, this.world.width / 2);
+    const marginY = Math.min(radius, this.world.height / 2);
+    return {
+      x: Math.max(marginX, Math.min(this.world.width - marginX, this.from.x + Math.cos(angle) * offset)),
+      y: Math.max(marginY, Math.min(this.world.height - marginY, this.from.y + Math.sin(angle) * offset)),
+      radius
+    };
+  }
+  
+  // Where the storm circle is right now
+  private getStormCircle(): Circle {
+    if (!this.shrinking) return this.from;
+    
+    const progress = 1 - Math.max(0, this.phaseTimer) / STORM_PHASES[this.phase].shrinkMs;
+    return {
+      x: this.from.x + (this.to.x - this.from.x) * progress,
+      y: this.from.y + (this.to.y - this.from.y) * progress,
+      radius: this.from.radius + (this.to.radius - this.from.radius) * progress
+    };
+  }
+  
+  private getStormStatus(): StormStatus {
+    const phase = STORM_PHASES[this.phase];
+    return {
+      phase: this.phase,
+      phases: STORM_PHASES.length,
+      shrinking: this.shrinking,
+      phaseTimeLeftMs: Number.isFinite(this.phaseTimer) ? Math.max(0, Math.round(this.phaseTimer)) : 0,
+      shrinkMs: phase.shrinkMs,
+      damagePerSecond: phase.damagePerSecond,
+      from: this.from,
+      to: this.to
+    };
+  }
+}
+
+function distance(a: Vector2, b: Vector2): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
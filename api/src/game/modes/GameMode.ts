@@ -0,0 +1,89 @@
+import { World } from '../World';
+import { Player } from '../entities/Player';
+import { Resource } from '../entities/Resource';
+import { Vector2 } from '../types';
+
+// Rules a room plays by. The World runs the same sandbox underneath every mode
+// (sailing, wood, chests, combat) and calls into its GameMode at the points a
+// mode may want to change: ships joining, leaving, sinking and respawning, and
+// once per tick. The default mode changes nothing.
+
+export type GameModeType = 'sandbox' | 'treasure' | 'royale' | 'hill';
+
+export type MatchState = 'waiting' | 'playing' | 'ended';
+
+// One line of the scoreboard: a team, or a player in free-for-all modes
+export interface ScoreboardEntry {
+  id: string;
+  name: string;
+  color: string | null;
+  score: number;
+}
+
+// Match progress as broadcast to clients (`game:scoreboard`). Modes add the
+// things clients need to draw them (ports, storms, zones).
+export interface Scoreboard {
+  mode: GameModeType;
+  state: MatchState;
+  timeLeftMs: number; // Left in the current state (0 while waiting for enough players)
+  scoreLimit: number | null; // null = the match only ends on time
+  scores: ScoreboardEntry[]; // Highest first
+  winner: string | null; // Name of the winning team or player, once the match has ended
+}
+
+export abstract class GameMode {
+  abstract readonly type: GameModeType;
+  protected world: World;
+  
+  constructor(world: World) {
+    this.world = world;
+  }
+  
+  // Set up once the world (and its teams, if any) exist
+  start(): void {}
+  
+  // Called every tick after the world has moved everything
+  update(deltaTime: number): void {}
+  
+  // A ship joined (and was put on its team, in team mode)
+  onPlayerAdded(player: Player): void {}
+  
+  // A ship left the game
+  onPlayerRemoved(player: Player): void {}
+  
+  // A ship sank, before it drops its loot and respawns (`killer` is null when
+  // nobody gets the credit)
+  onShipSunk(player: Player, killer: Player | null): void {}
+  
+  // Whether a sunk ship comes back; if not it stays out (sunk) until the mode
+  // brings it back with World.respawnShip
+  canRespawn(player: Player): boolean {
+    return true;
+  }
+  
+  // Where a ship should (re)spawn; null = anywhere safe
+  getSpawnPosition(player: Player): Vector2 | null {
+    return null;
+  }
+  
+  // A ship sailed over the treasure; true if it picked it up
+  pickUpTreasure(player: Player, treasure: Resource): boolean {
+    return false;
+  }
+  
+  // Where the mode wants a ship to go (NPCs head there when they've nothing
+  // better to do); null = nowhere in particular
+  getObjective(player: Player): Vector2 | null {
+    return null;
+  }
+  
+  // null = nothing to show (no matches in this mode)
+  getScoreboard(): Scoreboard | null {
+    return null;
+  }
+}
+
+// The free-for-all growth sandbox: no teams, no matches, nothing to win
+export class SandboxMode extends GameMode {
+  readonly type = 'sandbox';
+}
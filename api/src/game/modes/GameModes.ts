@@ -0,0 +1,21 @@
+import { World } from '../World';
+import { GameMode, GameModeType, SandboxMode } from './GameMode';
+import { TreasureMode } from './TreasureMode';
+import { BattleRoyaleMode } from './BattleRoyaleMode';
+import { KingOfTheHillMode } from './KingOfTheHillMode';
+
+// Every mode a room can be started in (see RoomSettings.mode)
+export const GAME_MODE_TYPES: GameModeType[] = ['sandbox', 'treasure', 'royale', 'hill'];
+
+export function createGameMode(type: GameModeType, world: World): GameMode {
+  switch (type) {
+    case 'treasure':
+      return new TreasureMode(world);
+    case 'royale':
+      return new BattleRoyaleMode(world);
+    case 'hill':
+      return new KingOfTheHillMode(world);
+    default:
+      return new SandboxMode(world);
+  }
+}
@@ -0,0 +1,197 @@
+import { World } from '../World';
+import { Player } from '../entities/Player';
+import { Zone, ZoneOwner } from '../entities/Zone';
+import { Vector2 } from '../types';
+import { MatchMode } from './MatchMode';
+import { ScoreboardEntry } from './GameMode';
+
+// King of the hill: control zones are spread over the map. A side (an alliance
+// or team, or a lone ship) takes a zone by being the only one with ships inside
+// it for long enough. Held zones pay their owner points and a trickle of HP;
+// the first side to the score limit, or the side ahead when time runs out,
+// wins the match.
+
+export class KingOfTheHillMode extends MatchMode {
+  readonly type = 'hill';
+  
+  static readonly MATCH_DURATION_MS: number = 8 * 60 * 1000;
+  static readonly INTERMISSION_MS: number = 15000;
+  static readonly SCORE_LIMIT: number = 150;
+  
+  static readonly ZONE_NAMES: string[] = ['A', 'B', 'C'];
+  static readonly ZONE_RADIUS: number = 300;
+  
+  // How far the outer zones are from the middle one, as a share of the map width
+  static readonly ZONE_SPREAD: number = 0.25;
+  
+  // Time alone in a zone to take it; progress drains at the same rate when
+  // the zone is left alone, or when its owner or another side is inside
+  static readonly CAPTURE_MS: number = 8000;
+  
+  // Every interval, each held zone pays its owner a point and each of the
+  // owner's ships some HP
+  static readonly PAYOUT_INTERVAL_MS: number = 2000;
+  static readonly PAYOUT_POINTS: number = 1;
+  static readonly PAYOUT_HP: number = 0.2;
+  
+  // Colour of a lone ship's side (alliances and teams have their own)
+  static readonly SOLO_COLOR: string = '#f5f5f5';
+  
+  private zones: Zone[] = [];
+  private scores: Map<string, ScoreboardEntry> = new Map(); // Side id -> score
+  private payoutTimer: number = 0;
+  
+  constructor(world: World) {
+    super(world, KingOfTheHillMode.MATCH_DURATION_MS, KingOfTheHillMode.INTERMISSION_MS, KingOfTheHillMode.SCORE_LIMIT);
+  }
+  
+  // One zone in the middle of the map and the rest evenly around it
+  start(): void {
+    const center = { x: this.world.width / 2, y: this.world.height / 2 };
+    const spread = this.world.width * KingOfTheHillMode.ZONE_SPREAD;
+    const outer = KingOfTheHillMode.ZONE_NAMES.length - 1;
+    
+    this.zones = KingOfTheHillMode.ZONE_NAMES.map((name, i) => {
+      const angle = Math.PI + (i - 1) / outer * Math.PI * 2;
+      const position = i === 0 ? center : { x: center.x + Math.cos(angle) * spread, y: center.y + Math.sin(angle) * spread };
+      return new Zone(this.world.random.uuid(), position, KingOfTheHillMode.ZONE_RADIUS, name);
+    });
+    for (const zone of this.zones) {
+      this.world.addZone(zone);
+    }
+  }
+  
+  // Every zone goes back to neutral
+  protected onMatchStart(): void {
+    this.scores.clear();
+    this.payoutTimer = KingOfTheHillMode.PAYOUT_INTERVAL_MS;
+    for (const zone of this.zones) {
+      zone.setOwner(null);
+      zone.setCapture(null, 0);
+      zone.setContested(false);
+    }
+  }
+  
+  protected updateMatch(deltaTime: number): void {
+    for (const zone of this.zones) {
+      this.updateZone(zone, deltaTime);
+    }
+    
+    this.payoutTimer -= deltaTime;
+    if (this.payoutTimer > 0) return;
+    
+    this.payoutTimer += KingOfTheHillMode.PAYOUT_INTERVAL_MS;
+    this.payOut();
+  }
+  
+  // A lone ship's zones go neutral when it leaves
+  onPlayerRemoved(player: Player): void {
+    for (const zone of this.zones) {
+      if (zone.owner?.id === player.id) {
+        zone.setOwner(null);
+      }
+      if (zone.capturer?.id === player.id) {
+        zone.setCapture(null, 0);
+      }
+    }
+  }
+  
+  // Head for the nearest zone our side doesn't hold
+  getObjective(player: Player): Vector2 | null {
+    if (this.state !== 'playing') return null;
+    
+    const side = this.getSide(player);
+    let nearest: Zone | null = null;
+    let nearestDistance = Infinity;
+    for (const zone of this.zones) {
+      if (zone.owner?.id === side.id) continue;
+      
+      const distance = Math.hypot(zone.position.x - player.position.x, zone.position.y - player.position.y);
+      if (distance < nearestDistance) {
+        nearest = zone;
+        nearestDistance = distance;
+      }
+    }
+    return nearest ? nearest.position : null;
+  }
+  
+  protected getScores(): ScoreboardEntry[] {
+    return Array.from(this.scores.values())
+      .map(entry => ({ ...entry }))
+      .sort((a, b) => b.score - a.score);
+  }
+  
+  // Move a zone's capture on by one tick, depending on who's inside
+  private updateZone(zone: Zone, deltaTime: number): void {
+    const sides = new Map<string, ZoneOwner>();
+    for (const ship of this.world.getShipsNear(zone.position, zone.size)) {
+      const side = this.getSide(ship);
+      sides.set(side.id, side);
+    }
+    
+    // Nobody gets anywhere while it's contested
+    zone.setContested(sides.size > 1);
+    if (sides.size > 1) return;
+    
+    const step = deltaTime / KingOfTheHillMode.CAPTURE_MS;
+    const [side] = sides.values();
+    
+    // Empty, or only its owner inside: any capture drains away
+    if (!side || side.id === zone.owner?.id) {
+      const progress = Math.max(0, zone.progress - step);
+      zone.setCapture(progress > 0 ? zone.capturer : null, progress);
+      return;
+    }
+    
+    // Someone else's capture has to drain away before this side's starts
+    if (zone.capturer && zone.capturer.id !== side.id) {
+      const progress = zone.progress - step;
+      zone.setCapture(progress > 0 ? zone.capturer : side, Math.max(0, progress));
+      return;
+    }
+    
+    const progress = zone.progress + step;
+    if (progress < 1) {
+      zone.setCapture(side, progress);
+      return;
+    }
+    
+    zone.setOwner(side);
+    zone.setCapture(null, 0);
+    this.world.broadcast('game:killfeed', `${side.name} captured zone ${zone.name}!`);
+    this.sendScoreboard();
+  }
+  
+  // Held zones pay their owners
+  private payOut(): void {
+    let paid = false;
+    for (const zone of this.zones) {
+      const owner = zone.owner;
+      if (!owner) continue;
+      
+      const entry = this.scores.get(owner.id) || { ...owner, score: 0 };
+      entry.score += KingOfTheHillMode.PAYOUT_POINTS;
+      this.scores.set(owner.id, entry);
+      paid = true;
+      
+      for (const ship of this.world.getShips()) {
+        if (this.getSide(ship).id === owner.id) {
+          this.world.healShip(ship, KingOfTheHillMode.PAYOUT_HP);
+        }
+      }
+    }
+    
+    if (paid) {
+      this.checkScoreLimit();
+    }
+  }
+  
+  // The side a ship plays for: its alliance or team, or itself
+  private getSide(player: Player): ZoneOwner {
+    const alliance = this.world.getAlliance(player.id);
+    if (alliance) {
+      return { id: `alliance:${alliance.id}`, name: alliance.name, color: alliance.color };
+    }
+    return { id: player.id, name: player.name, color: KingOfTheHillMode.SOLO_COLOR };
+  }
+}
@@ -0,0 +1,123 @@
+import { World } from '../World';
+import { GameMode, MatchState, Scoreboard, ScoreboardEntry } from './GameMode';
+
+// A mode played in timed matches: wait in the lobby until a match can start
+// (and a countdown has run), play until the time or score limit is reached,
+// show the result for a while, then start over.
+export abstract class MatchMode extends GameMode {
+  protected state: MatchState = 'waiting';
+  protected stateTimer: number = 0; // ms left in the current state
+  protected winner: string | null = null;
+  protected matchDurationMs: number;
+  protected intermissionMs: number;
+  protected scoreLimit: number | null;
+  protected lobbyCountdownMs: number; // Once a match can start, how long the lobby waits for latecomers
+  
+  constructor(world: World, matchDurationMs: number, intermissionMs: number, scoreLimit: number | null, lobbyCountdownMs: number = 0) {
+    super(world);
+    this.matchDurationMs = matchDurationMs;
+    this.intermissionMs = intermissionMs;
+    this.scoreLimit = scoreLimit;
+    this.lobbyCountdownMs = lobbyCountdownMs;
+    this.stateTimer = lobbyCountdownMs;
+  }
+  
+  update(deltaTime: number): void {
+    if (this.state === 'waiting') {
+      // The countdown starts over whenever too few are left to play
+      if (!this.canStartMatch()) {
+        this.stateTimer = this.lobbyCountdownMs;
+        return;
+      }
+      
+      this.stateTimer -= deltaTime;
+      if (this.stateTimer <= 0) {
+        this.startMatch();
+      }
+      return;
+    }
+    
+    this.stateTimer -= deltaTime;
+    
+    if (this.state === 'playing') {
+      this.updateMatch(deltaTime);
+      
+      if (this.state === 'playing' && this.stateTimer <= 0) {
+        this.endMatch(this.getTimeUpWinner());
+      }
+    } else if (this.stateTimer <= 0) {
+      this.state = 'waiting';
+      this.stateTimer = this.lobbyCountdownMs;
+      this.onLobbyOpen();
+    }
+  }
+  
+  // Whether a new match can begin (e.g. enough players have joined)
+  protected canStartMatch(): boolean {
+    return true;
+  }
+  
+  protected startMatch(): void {
+    this.state = 'playing';
+    this.stateTimer = this.matchDurationMs;
+    this.winner = null;
+    this.onMatchStart();
+    
+    this.world.broadcast('game:killfeed', 'A new match has begun!');
+    this.sendScoreboard();
+  }
+  
+  // Finish the match; `winner` is the name of the winning team or player (null = a draw)
+  protected endMatch(winner: string | null): void {
+    this.state = 'ended';
+    this.stateTimer = this.intermissionMs;
+    this.winner = winner;
+    
+    this.world.broadcast('game:killfeed', winner ? `${winner} won the match!` : 'The match ended in a draw');
+    this.sendScoreboard();
+  }
+  
+  // Out of time: whoever is ahead wins (nobody, on a tie)
+  protected getTimeUpWinner(): string | null {
+    const [first, second] = this.getScores();
+    return first && (!second || first.score > second.score) ? first.name : null;
+  }
+  
+  // The result has been shown and the lobby is open for the next match
+  protected onLobbyOpen(): void {}
+  
+  // Reset the mode's scores and objectives for a new match
+  protected abstract onMatchStart(): void;
+  
+  // Play one tick of a running match
+  protected abstract updateMatch(deltaTime: number): void;
+  
+  // Current scores, highest first
+  protected abstract getScores(): ScoreboardEntry[];
+  
+  // End the match early when someone has reached the score limit
+  protected checkScoreLimit(): void {
+    if (this.scoreLimit === null) return;
+    
+    const leader = this.getScores()[0];
+    if (leader && leader.score >= this.scoreLimit) {
+      this.endMatch(leader.name);
+    }
+  }
+  
+  // Push the scoreboard out now rather than waiting for the room's next broadcast
+  protected sendScoreboard(): void {
+    this.world.broadcast('game:scoreboard', this.getScoreboard());
+  }
+  
+  getScoreboard(): Scoreboard {
+    return {
+      mode: this.type,
+      state: this.state,
+      timeLeftMs: this.state === 'waiting' && !this.canStartMatch() ? 0 : Math.max(0, Math.round(this.stateTimer)),
+      scoreLimit: this.scoreLimit,
+      scores: this.getScores(),
+      winner: this.winner
+    };
+  }
+}
@@ -0,0 +1,199 @@
+import { World } from '../World';
+import { Player } from '../entities/Player';
+import { Resource } from '../entities/Resource';
+import { Alliance } from '../Alliances';
+import { Vector2 } from '../types';
+import { MatchMode } from './MatchMode';
+import { Scoreboard, ScoreboardEntry } from './GameMode';
+
+// Capture the treasure: a treasure chest spawns in neutral water near the middle
+// of the map and teams race to carry it back to their home port. The carrier
+// sails slower and drops the chest where it sinks. Each capture scores a point
+// and puts a new chest out; the first team to the score limit, or the team
+// ahead when time runs out, wins the match.
+
+interface HomePort {
+  team: Alliance;
+  position: Vector2;
+}
+
+export interface TreasureScoreboard extends Scoreboard {
+  ports: Array<{ teamId: number, name: string, color: string, x: number, y: number, radius: number }>;
+  treasure: { x: number, y: number, carrierId: string | null } | null; // null between matches
+}
+
+export class TreasureMode extends MatchMode {
+  readonly type = 'treasure';
+  
+  // Teams to split into when the room isn't already in team mode
+  static readonly DEFAULT_TEAMS: number = 2;
+  
+  static readonly MATCH_DURATION_MS: number = 10 * 60 * 1000;
+  static readonly INTERMISSION_MS: number = 15000;
+  static readonly SCORE_LIMIT: number = 3;
+  
+  // Reaching this close to the home port with the treasure scores; ships also respawn in here
+  static readonly PORT_RADIUS: number = 250;
+  
+  // How far ports are from the middle of the map, as a share of its width
+  static readonly PORT_DISTANCE: number = 0.4;
+  
+  // New chests turn up this close to the middle of the map
+  static readonly TREASURE_SPAWN_RADIUS: number = 500;
+  
+  private ports: HomePort[] = [];
+  private scores: Map<number, number> = new Map(); // Team id -> captures
+  private treasure: Resource | null = null; // The chest while it's floating free
+  private carrier: Player | null = null; // The ship carrying it otherwise
+  
+  constructor(world: World) {
+    super(world, TreasureMode.MATCH_DURATION_MS, TreasureMode.INTERMISSION_MS, TreasureMode.SCORE_LIMIT);
+  }
+  
+  // Ports sit evenly spaced around the middle of the map, one per team
+  start(): void {
+    if (!this.world.isTeamMode()) {
+      this.world.setTeams(TreasureMode.DEFAULT_TEAMS);
+    }
+    
+    const teams = this.world.getTeams();
+    const center = { x: this.world.width / 2, y: this.world.height / 2 };
+    const distance = this.world.width * TreasureMode.PORT_DISTANCE;
+    this.ports = teams.map((team, i) => {
+      const angle = Math.PI + i / teams.length * Math.PI * 2;
+      return {
+        team,
+        position: { x: center.x + Math.cos(angle) * distance, y: center.y + Math.sin(angle) * distance }
+      };
+    });
+  }
+  
+  protected onMatchStart(): void {
+    if (this.carrier) {
+      this.carrier.setCarryingTreasure(false);
+      this.carrier = null;
+    }
+    if (this.treasure) {
+      this.world.despawnResource(this.treasure);
+      this.treasure = null;
+    }
+    
+    this.scores.clear();
+    for (const port of this.ports) {
+      this.scores.set(port.team.id, 0);
+    }
+    
+    this.placeTreasure();
+  }
+  
+  // Score when the carrier makes it home
+  protected updateMatch(deltaTime: number): void {
+    const carrier = this.carrier;
+    if (!carrier) return;
+    
+    const port = this.getPort(carrier);
+    if (!port || distance(carrier.position, port.position) > TreasureMode.PORT_RADIUS) return;
+    
+    carrier.setCarryingTreasure(false);
+    this.carrier = null;
+    this.scores.set(port.team.id, (this.scores.get(port.team.id) || 0) + 1);
+    this.world.broadcast('game:killfeed', `${carrier.name} brought the treasure home for the ${port.team.name}!`);
+    
+    this.placeTreasure();
+    this.sendScoreboard();
+    this.checkScoreLimit();
+  }
+  
+  // Any ship can take a chest floating free, while a match is on
+  pickUpTreasure(player: Player, treasure: Resource): boolean {
+    if (this.state !== 'playing' || treasure !== this.treasure || !this.getPort(player)) return false;
+    
+    this.treasure = null;
+    this.carrier = player;
+    player.setCarryingTreasure(true);
+    this.world.broadcast('game:killfeed', `${player.name} seized the treasure!`);
+    this.sendScoreboard();
+    return true;
+  }
+  
+  onShipSunk(player: Player, killer: Player | null): void {
+    if (player === this.carrier) {
+      this.dropTreasure(player);
+    }
+  }
+  
+  onPlayerRemoved(player: Player): void {
+    if (player === this.carrier) {
+      this.dropTreasure(player);
+    }
+  }
+  
+  getSpawnPosition(player: Player): Vector2 | null {
+    const port = this.getPort(player);
+    return port ? this.world.getSafePositionNear(port.position, TreasureMode.PORT_RADIUS) : null;
+  }
+  
+  // Carry the chest home, go and get it, or go after (or escort) whoever has it
+  getObjective(player: Player): Vector2 | null {
+    if (player === this.carrier) {
+      return this.getPort(player)?.position || null;
+    }
+    if (this.treasure) {
+      return this.treasure.position;
+    }
+    return this.carrier ? this.carrier.position : null;
+  }
+  
+  protected getScores(): ScoreboardEntry[] {
+    return this.ports
+      .map(port => ({
+        id: String(port.team.id),
+        name: port.team.name,
+        color: port.team.color,
+        score: this.scores.get(port.team.id) || 0
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+  
+  getScoreboard(): TreasureScoreboard {
+    const chest = this.carrier || this.treasure;
+    return {
+      ...super.getScoreboard(),
+      ports: this.ports.map(port => ({
+        teamId: port.team.id,
+        name: port.team.name,
+        color: port.team.color,
+        x: port.position.x,
+        y: port.position.y,
+        radius: TreasureMode.PORT_RADIUS
+      })),
+      treasure: chest ? { x: chest.position.x, y: chest.position.y, carrierId: this.carrier?.id || null } : null
+    };
+  }
+  
+  // Put a new chest out in neutral water
+  private placeTreasure(): void {
+    const center = { x: this.world.width / 2, y: this.world.height / 2 };
+    const position = this.world.getSafePositionNear(center, TreasureMode.TREASURE_SPAWN_RADIUS);
+    this.treasure = this.world.spawnResourceAt('treasure', position);
+  }
+  
+  // The carrier lost the chest; it floats where they were
+  private dropTreasure(carrier: Player): void {
+    carrier.setCarryingTreasure(false);
+    this.carrier = null;
+    this.treasure = this.world.spawnResourceAt('treasure', { ...carrier.position });
+    this.world.broadcast('game:killfeed', `${carrier.name} lost the treasure!`);
+    this.sendScoreboard();
+  }
+  
+  // A ship's home port (through its team)
+  private getPort(player: Player): HomePort | undefined {
+    const team = this.world.getAlliance(player.id);
+    return this.ports.find(port => port.team === team);
+  }
+}
+
+function distance(a: Vector2, b: Vector2): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
@@ -0,0 +1,79 @@
+// Growable little-endian byte buffer used to build binary snapshots
+export class BinaryWriter {
+  private buffer: Buffer;
+  private offset: number = 0;
+  
+  constructor(initialSize: number = 1024) {
+    this.buffer = Buffer.alloc(initialSize);
+  }
+  
+  // Make room for `bytes` more bytes
+  private ensure(bytes: number): void {
+    if (this.offset + bytes <= this.buffer.length) return;
+    
+    let size = this.buffer.length * 2;
+    while (size < this.offset + bytes) size *= 2;
+    
+    const grown = Buffer.alloc(size);
+    this.buffer.copy(grown, 0, 0, this.offset);
+    this.buffer = grown;
+  }
+  
+  get length(): number {
+    return this.offset;
+  }
+  
+  writeU8(value: number): void {
+    this.ensure(1);
+    this.buffer.writeUInt8(value, this.offset);
+    this.offset += 1;
+  }
+  
+  writeU16(value: number): void {
+    this.ensure(2);
+    this.buffer.writeUInt16LE(value, this.offset);
+    this.offset += 2;
+  }
+  
+  writeI16(value: number): void {
+    this.ensure(2);
+    this.buffer.writeInt16LE(value, this.offset);
+    this.offset += 2;
+  }
+  
+  writeU32(value: number): void {
+    this.ensure(4);
+    this.buffer.writeUInt32LE(value >>> 0, this.offset);
+    this.offset += 4;
+  }
+  
+  // Overwrite a previously written u16 (used to patch counts)
+  setU16(offset: number, value: number): void {
+    this.buffer.writeUInt16LE(value, offset);
+  }
+  
+  writeBytes(bytes: Buffer): void {
+    this.ensure(bytes.length);
+    bytes.copy(this.buffer, this.offset);
+    this.offset += bytes.length;
+  }
+  
+  // UTF-8 string with a u8 length prefix (truncated to 255 bytes)
+  writeShortString(value: string): void {
+    const bytes = Buffer.from(value, 'utf8').subarray(0, 255);
+    this.writeU8(bytes.length);
+    this.writeBytes(bytes);
+  }
+  
+  // UTF-8 string with a u16 length prefix
+  writeLongString(value: string): void {
+    const bytes = Buffer.from(value, 'utf8').subarray(0, 0xffff);
+    this.writeU16(bytes.length);
+    this.writeBytes(bytes);
+  }
+  
+  // Copy of the bytes written so far
+  toBuffer(): Buffer {
+    return Buffer.from(this.buffer.subarray(0, this.offset));
+  }
+}
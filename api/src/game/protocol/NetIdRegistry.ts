@@ -0,0 +1,29 @@
+// Hands out short numeric network ids for entities so snapshots don't have to
+// repeat UUID strings. Ids fit in 16 bits; 0 is reserved for "no id".
+export class NetIdRegistry {
+  static readonly MAX_ID: number = 0xffff;
+  
+  private nextId: number = 1;
+  private freeIds: number[] = [];
+  
+  // Allocate an id, reusing released ones first. Returns 0 if all ids are taken.
+  allocate(): number {
+    if (this.freeIds.length > 0) {
+      return this.freeIds.pop() as number;
+    }
+    
+    if (this.nextId > NetIdRegistry.MAX_ID) {
+      console.warn('NetIdRegistry: out of network ids, entity will not be sent in snapshots');
+      return 0;
+    }
+    
+    return this.nextId++;
+  }
+  
+  // Return an id to the pool
+  release(id: number): void {
+    if (id > 0) {
+      this.freeIds.push(id);
+    }
+  }
+}
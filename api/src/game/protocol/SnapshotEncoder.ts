@@ -0,0 +1,256 @@
+import { Entity } from '../entities/Entity';
+import { Player } from '../entities/Player';
+import { VisibleEntities, EntityData } from '../types';
+import { BinaryWriter } from './BinaryWriter';
+import {
+  SNAPSHOT_VERSION,
+  FIXED_POINT_SCALE,
+  HP_SCALE,
+  EXTRAS_MASK_BIT,
+  SnapshotOp,
+  EntityKindDescriptor,
+  FieldDescriptor,
+  getKindDescriptor
+} from './snapshotSchema';
+
+// Quantized state of one entity as it was sent in a snapshot
+interface SentEntity {
+  kind: EntityKindDescriptor;
+  id: string;
+  version: number; // Entity.version the values were taken from
+  values: (number | string)[];
+  extras: string;
+}
+
+type SentSnapshot = Map<number, SentEntity>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Keys every serialized entity has that aren't sent as fields
+const ENVELOPE_KEYS = new Set(['id', 'type']);
+
+// Encodes per-client binary snapshots, delta-compressed against the last
+// snapshot the client acknowledged. One instance per connected client.
+export class SnapshotEncoder {
+  private sequence: number = 0;
+  private ackedSequence: number = 0;
+  private history: Map<number, SentSnapshot> = new Map();
+  private lastSent: SentSnapshot = new Map(); // Most recent snapshot, for reusing unchanged entities
+  
+  // Snapshots kept around as potential baselines while waiting for acks
+  private static readonly MAX_HISTORY: number = 64;
+  
+  // Record that the client has received and applied a snapshot.
+  // Acknowledging 0 asks for a full snapshot (the client lost its baseline).
+  acknowledge(sequence: number): void {
+    if (sequence === 0) {
+      this.ackedSequence = 0;
+      return;
+    }
+    
+    if (sequence <= this.ackedSequence || !this.history.has(sequence)) return;
+    
+    this.ackedSequence = sequence;
+    
+    // Older snapshots can never be used as baselines again
+    for (const seq of this.history.keys()) {
+      if (seq < sequence) {
+        this.history.delete(seq);
+      }
+    }
+  }
+  
+  // Build the snapshot for a player's current view
+  encode(player: Player, visible: VisibleEntities): Buffer {
+    const sequence = ++this.sequence;
+    const baseline = this.history.get(this.ackedSequence);
+    const baselineSequence = baseline ? this.ackedSequence : 0;
+    
+    const writer = new BinaryWriter();
+    writer.writeU8(SNAPSHOT_VERSION);
+    writer.writeU32(sequence);
+    writer.writeU32(baselineSequence);
+    writer.writeU16(player.netId);
+    writer.writeU32(player.lastInputSequence);
+    
+    const countOffset = writer.length;
+    writer.writeU16(0);
+    let recordCount = 0;
+    
+    const current: SentSnapshot = new Map();
+    const entities: Entity[] = [
+      player,
+      ...visible.ships,
+      ...visible.resources,
+      ...visible.rocks,
+      ...visible.projectiles,
+      ...visible.zones
+    ];
+    
+    // New and changed entities
+    for (const entity of entities) {
+      if (entity.netId === 0 || current.has(entity.netId)) continue;
+      
+      // Unchanged since the last snapshot - skip serializing it again
+      let sent = this.lastSent.get(entity.netId);
+      if (!sent || sent.id !== entity.id || sent.version !== entity.version) {
+        const data = entity.serialize();
+        const kind = getKindDescriptor(data.type);
+        if (!kind) continue;
+        
+        sent = this.quantize(kind, data, entity.version);
+      }
+      current.set(entity.netId, sent);
+      
+      const previous = baseline?.get(entity.netId);
+      if (!previous || previous.kind !== sent.kind || previous.id !== sent.id) {
+        this.writeCreate(writer, entity.netId, sent);
+        recordCount++;
+      } else if (previous !== sent && this.writeUpdate(writer, entity.netId, previous, sent)) {
+        recordCount++;
+      }
+    }
+    
+    // Entities that left the view or were destroyed
+    if (baseline) {
+      for (const [netId, previous] of baseline) {
+        if (current.has(netId)) continue;
+        
+        writer.writeU16(netId);
+        writer.writeU8((SnapshotOp.Remove << 4) | previous.kind.kind);
+        recordCount++;
+      }
+    }
+    
+    writer.setU16(countOffset, recordCount);
+    
+    // Remember what we sent so it can serve as a baseline once acknowledged
+    this.history.set(sequence, current);
+    this.lastSent = current;
+    if (this.history.size > SnapshotEncoder.MAX_HISTORY) {
+      // Drop the oldest snapshot, but never the current baseline
+      for (const seq of this.history.keys()) {
+        if (seq !== this.ackedSequence) {
+          this.history.delete(seq);
+          break;
+        }
+      }
+    }
+    
+    return writer.toBuffer();
+  }
+  
+  // Convert serialized entity data into wire values
+  private quantize(kind: EntityKindDescriptor, data: EntityData, version: number): SentEntity {
+    const values = kind.fields.map(field => this.quantizeField(field, data[field.key]));
+    
+    // Everything else goes into the extras string
+    const extras: Record<string, any> = {};
+    let hasExtras = false;
+    const fieldKeys = new Set(kind.fields.map(field => field.key));
+    for (const key of Object.keys(data)) {
+      if (ENVELOPE_KEYS.has(key) || fieldKeys.has(key) || data[key] === undefined) continue;
+      extras[key] = data[key];
+      hasExtras = true;
+    }
+    
+    return {
+      kind,
+      id: data.id,
+      version,
+      values,
+      extras: hasExtras ? JSON.stringify(extras) : ''
+    };
+  }
+  
+  private quantizeField(field: FieldDescriptor, value: any): number | string {
+    switch (field.type) {
+      case 'fixed':
+        return Math.max(0, Math.min(0xffff, Math.round((value || 0) * FIXED_POINT_SCALE)));
+      case 'sfixed':
+        return Math.max(-0x8000, Math.min(0x7fff, Math.round((value || 0) * FIXED_POINT_SCALE)));
+      case 'hp':
+        return Math.max(0, Math.min(0xffffffff, Math.ceil((value || 0) * HP_SCALE)));
+      case 'angle': {
+        const turn = Math.PI * 2;
+        const normalized = (((value || 0) % turn) + turn) % turn;
+        return Math.round(normalized / turn * 0x10000) & 0xffff;
+      }
+      case 'u8':
+        return Math.max(0, Math.min(0xff, Math.round(value || 0)));
+      case 'u16':
+        return Math.max(0, Math.min(0xffff, Math.round(value || 0)));
+      case 'string':
+        return String(value ?? '');
+      case 'enum':
+        return Math.max(0, (field.values || []).indexOf(value));
+    }
+  }
+  
+  private writeField(writer: BinaryWriter, field: FieldDescriptor, value: number | string): void {
+    switch (field.type) {
+      case 'fixed':
+      case 'angle':
+      case 'u16':
+        writer.writeU16(value as number);
+        break;
+      case 'sfixed':
+        writer.writeI16(value as number);
+        break;
+      case 'hp':
+        writer.writeU32(value as number);
+        break;
+      case 'u8':
+      case 'enum':
+        writer.writeU8(value as number);
+        break;
+      case 'string':
+        writer.writeShortString(value as string);
+        break;
+    }
+  }
+  
+  // UUIDs go out as 16 raw bytes, anything else (socket ids) as a short string
+  private writeId(writer: BinaryWriter, id: string): void {
+    if (UUID_PATTERN.test(id)) {
+      writer.writeU8(1);
+      writer.writeBytes(Buffer.from(id.replace(/-/g, ''), 'hex'));
+    } else {
+      writer.writeU8(0);
+      writer.writeShortString(id);
+    }
+  }
+  
+  private writeCreate(writer: BinaryWriter, netId: number, sent: SentEntity): void {
+    writer.writeU16(netId);
+    writer.writeU8((SnapshotOp.Create << 4) | sent.kind.kind);
+    this.writeId(writer, sent.id);
+    
+    sent.kind.fields.forEach((field, i) => this.writeField(writer, field, sent.values[i]));
+    writer.writeLongString(sent.extras);
+  }
+  
+  // Write an update record if anything changed; returns false when nothing was written
+  private writeUpdate(writer: BinaryWriter, netId: number, previous: SentEntity, sent: SentEntity): boolean {
+    let mask = 0;
+    sent.values.forEach((value, i) => {
+      if (value !== previous.values[i]) mask |= 1 << i;
+    });
+    if (sent.extras !== previous.extras) mask |= 1 << EXTRAS_MASK_BIT;
+    
+    if (mask === 0) return false;
+    
+    writer.writeU16(netId);
+    writer.writeU8((SnapshotOp.Update << 4) | sent.kind.kind);
+    writer.writeU16(mask);
+    
+    sent.kind.fields.forEach((field, i) => {
+      if (mask & (1 << i)) this.writeField(writer, field, sent.values[i]);
+    });
+    if (mask & (1 << EXTRAS_MASK_BIT)) {
+      writer.writeLongString(sent.extras);
+    }
+    
+    return true;
+  }
+}
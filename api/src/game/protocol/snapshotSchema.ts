@@ -0,0 +1,139 @@
+// Binary snapshot layout shared (by convention) with client/src/game/protocol/snapshotSchema.ts.
+// Keep the two files in sync when adding fields.
+//
+// Message (`game:snapshot`):
+//   u8   version
+//   u32  sequence number
+//   u32  baseline sequence the deltas are against (0 = full snapshot)
+//   u16  network id of the receiving player's own ship
+//   u32  last controls input sequence the server applied for that player
+//   u16  record count, followed by records:
+//     u16 netId
+//     u8  (op << 4) | kind
+//     create: id, then every field in schema order, then extras
+//     update: u16 field mask (bit 15 = extras), then the masked fields in order
+//     remove: nothing
+//
+// Fields that aren't in the schema are carried in the "extras" JSON string so new
+// serialize() properties reach clients without a protocol change.
+
+export const SNAPSHOT_VERSION = 8;
+
+// Positions and sizes are sent as u16 fixed point with 1/4 px precision (max 16383 px);
+// velocities as i16 with the same scale (+-8191 px/s)
+export const FIXED_POINT_SCALE = 4;
+
+// Ship HP is sent as a u32 in 1/100 HP, rounded up so a ship with any HP left
+// never arrives as 0 (storm, grape and chain shot take off fractions)
+export const HP_SCALE = 100;
+
+// Bit in the update mask that flags a changed extras string
+export const EXTRAS_MASK_BIT = 15;
+
+export enum SnapshotOp {
+  Create = 0,
+  Update = 1,
+  Remove = 2
+}
+
+export enum EntityKind {
+  Ship = 0,
+  Resource = 1,
+  Rock = 2,
+  Projectile = 3,
+  Zone = 4
+}
+
+// - fixed: u16 fixed point (see FIXED_POINT_SCALE)
+// - sfixed: i16 fixed point, for signed values
+// - hp: u32 in 1/HP_SCALE, rounded up
+// - angle: u16 fraction of a full turn
+// - u8 / u16: unsigned integers
+// - string: UTF-8 with u8 length
+// - enum: u8 index into `values`
+export type FieldType = 'fixed' | 'sfixed' | 'hp' | 'angle' | 'u8' | 'u16' | 'string' | 'enum';
+
+export interface FieldDescriptor {
+  key: string;
+  type: FieldType;
+  values?: string[];
+}
+
+export interface EntityKindDescriptor {
+  kind: EntityKind;
+  type: string; // `type` reported by serialize()
+  fields: FieldDescriptor[];
+}
+
+export const ENTITY_KINDS: EntityKindDescriptor[] = [
+  {
+    kind: EntityKind.Ship,
+    type: 'ship',
+    fields: [
+      { key: 'x', type: 'fixed' },
+      { key: 'y', type: 'fixed' },
+      { key: 'angle', type: 'angle' },
+      { key: 'vx', type: 'sfixed' },
+      { key: 'vy', type: 'sfixed' },
+      { key: 'speedPercent', type: 'u8' }, // Below 100 while slowed by chain shot
+      { key: 'hp', type: 'hp' },
+      { key: 'size', type: 'fixed' },
+      { key: 'cannons', type: 'u8' },
+      { key: 'shipType', type: 'u8' },
+      { key: 'name', type: 'string' }
+    ]
+  },
+  {
+    kind: EntityKind.Resource,
+    type: 'resource',
+    fields: [
+      { key: 'x', type: 'fixed' },
+      { key: 'y', type: 'fixed' },
+      { key: 'resourceType', type: 'enum', values: ['wood', 'chest', 'ammo', 'treasure'] },
+      { key: 'value', type: 'u8' }
+    ]
+  },
+  {
+    kind: EntityKind.Rock,
+    type: 'rock',
+    fields: [
+      { key: 'x', type: 'fixed' },
+      { key: 'y', type: 'fixed' },
+      { key: 'size', type: 'fixed' },
+      { key: 'hp', type: 'fixed' },
+      { key: 'maxHp', type: 'fixed' },
+      { key: 'rockType', type: 'enum', values: ['stone', 'mossy', 'boulder', 'powder', 'treasure'] }
+    ]
+  },
+  {
+    kind: EntityKind.Projectile,
+    type: 'projectile',
+    fields: [
+      { key: 'x', type: 'fixed' },
+      { key: 'y', type: 'fixed' },
+      { key: 'angle', type: 'angle' },
+      { key: 'ownerId', type: 'string' },
+      { key: 'ammoType', type: 'enum', values: ['round', 'chain', 'grape', 'explosive'] }
+    ]
+  },
+  {
+    kind: EntityKind.Zone,
+    type: 'zone',
+    fields: [
+      { key: 'x', type: 'fixed' },
+      { key: 'y', type: 'fixed' },
+      { key: 'size', type: 'fixed' }, // Radius
+      { key: 'name', type: 'string' },
+      { key: 'owner', type: 'string' }, // Name of the side holding it ('' = nobody)
+      { key: 'ownerColor', type: 'string' },
+      { key: 'capturerColor', type: 'string' }, // Colour of the side taking it
+      { key: 'progress', type: 'u8' }, // Capture progress in percent
+      { key: 'contested', type: 'u8' } // 1 while ships of more than one side are inside
+    ]
+  }
+];
+
+// Look up a kind descriptor by the `type` reported by serialize()
+export function getKindDescriptor(type: string): EntityKindDescriptor | undefined {
+  return ENTITY_KINDS.find(descriptor => descriptor.type === type);
+}
@@ -1,3 +1,8 @@
+import { AmmoType } from './Ammo';
+import { UpgradeType } from './Upgrades';
+import { NpcDifficulty } from './Npc';
+import { GameModeType } from './modes/GameMode';
+
 // Basic 2D vector
 export interface Vector2 {
   x: number;
@@ -9,6 +14,68 @@ export interface PlayerControls {
   moveForward: boolean;
   rotateLeft: boolean;
   rotateRight: boolean;
+  brake: boolean; // Slow down, then sail backwards
+}
+
+// A controls message from the client. Newer clients number their inputs so the
+// server can echo back the last one it applied (used for client-side prediction).
+export interface ControlsInput extends PlayerControls {
+  sequence?: number;
+  timestamp?: number; // Client clock when the input was made (ms)
+}
+
+// A `player:join` message from the client
+export interface JoinRequest {
+  name: string;
+  shipType: number;
+  protocol?: 'json' | 'binary';
+  room?: string; // Room to join; omitted = the least busy open room
+}
+
+// Sides of a ship, looking forward: port is left, starboard is right
+export type BroadsideSide = 'port' | 'starboard';
+
+// A cannon fire message from the client
+export interface FireInput {
+  viewTime?: number; // Server time (ms) of the world state the shooter had on screen
+  side?: BroadsideSide; // Omitted = both sides
+}
+
+// Switching the ammo loaded in the cannons
+export interface AmmoSelectInput {
+  type: AmmoType;
+}
+
+// The player's answer to a chest's upgrade offer
+export interface UpgradePickInput {
+  offerId: number;
+  upgrade: UpgradeType;
+}
+
+// Asking another ship's captain to ally
+export interface AllianceRequestInput {
+  playerId: string;
+}
+
+// The answer to an alliance request from another player
+export interface AllianceResponseInput {
+  playerId: string; // Who asked
+  accept: boolean;
+}
+
+// Wind state sent to clients (`world:wind`). `angle` is the direction the wind
+// blows towards and `strength` runs from 0 (calm) to 1; each region of a grid
+// over the world bends the angle and scales the strength.
+export interface WindSnapshot {
+  angle: number;
+  strength: number;
+  regions: {
+    width: number;
+    height: number;
+    grid: number; // Regions per side
+    bends: number[]; // Radians, row-major
+    scales: number[];
+  };
 }
 
 // Visible entities container
@@ -17,6 +84,7 @@ export interface VisibleEntities {
   resources: any[];
   rocks: any[];
   projectiles: any[];
+  zones: any[];
 }
 
 // Entity serialized data
@@ -26,4 +94,48 @@ export interface EntityData {
   y: number;
   type: string;
   [key: string]: any;
-} 
\ No newline at end of file
+}
+
+// Tunable world configuration, as reported to the admin panel
+export interface GameConfiguration {
+  initialRockCount: number;
+  currentRockCount: number;
+  maxRockCount: number;
+  woodSpawnQuantity: number;
+  chestSpawnQuantity: number;
+  rockSpawnQuantity: number;
+  woodSpawnIntervalMs: number;
+  chestSpawnIntervalMs: number;
+  rockSpawnIntervalMs: number;
+  maxWoodCount: number;
+  currentWoodCount: number;
+  resourceCount: number;
+  playerCount: number;
+  maxRewindMs: number;
+  cannonStaggerMs: number;
+  npcCount: number;
+  npcDifficulty: NpcDifficulty;
+}
+
+// Per-room settings; each room runs its own World and tick loop
+export interface RoomSettings {
+  name: string;
+  maxPlayers: number;
+  tickRate: number;
+  seed?: number;
+  npcCount?: number; // NPC ships sailing the room's world (0 = none)
+  npcDifficulty?: NpcDifficulty;
+  teams?: number; // Fixed teams assigned at join (0 = players form their own alliances)
+  mode?: GameModeType; // Rules the room plays by (default: the sandbox)
+}
+
+// Room summary, as reported by /health
+export interface RoomStats {
+  id: string;
+  name: string;
+  players: number;
+  maxPlayers: number;
+  tickRate: number;
+  uptimeSeconds: number;
+  entities: { wood: number, chests: number, rocks: number, projectiles: number, players: number };
+}
@@ -0,0 +1,85 @@
+import { Socket } from 'socket.io';
+import { RateLimit, RateLimiter, TokenBucket } from './RateLimiter';
+import { ValidationError } from './schema';
+import { InboundEventName, InboundEvents, inboundEventSchemas } from './inboundEvents';
+
+// Reason a message was refused, sent back to the client in `error:event`
+export type InboundErrorCode = 'invalid_payload' | 'rate_limited' | 'too_many_errors';
+
+export interface InboundError {
+  event: string;
+  code: InboundErrorCode;
+  message: string;
+}
+
+// How often each event may be sent. Well above what a normal client does.
+const EVENT_RATE_LIMITS: { [E in InboundEventName]?: RateLimit } = {
+  'player:join': { capacity: 5, refillPerSecond: 0.5 },
+  'snapshot:ack': { capacity: 120, refillPerSecond: 90 }, // One per snapshot (up to the tick rate)
+  'player:controls': { capacity: 60, refillPerSecond: 30 }, // Sent when a key changes
+  'player:fire': { capacity: 10, refillPerSecond: 8 }, // Cannons reload in 2s anyway
+  'player:ammo_select': { capacity: 10, refillPerSecond: 5 }, // Cycling through ammo types
+  'alliance:request': { capacity: 5, refillPerSecond: 0.5 }, // Each one pops up on someone else's screen
+  'request:ships': { capacity: 3, refillPerSecond: 1 } // Full ship list, the most expensive reply
+};
+
+// Admin and anything else
+const DEFAULT_RATE_LIMIT: RateLimit = { capacity: 10, refillPerSecond: 2 };
+
+// Every refused message costs a strike; clients that run out are disconnected.
+// Strikes recover over time so the odd bad message is forgiven.
+const STRIKE_LIMIT: RateLimit = { capacity: 20, refillPerSecond: 0.5 };
+
+// Checks every message from one client: rate limits first, then the payload
+// schema. Refused messages get an `error:event` reply, and clients that keep
+// sending them get disconnected.
+export class ClientGuard {
+  private socket: Socket;
+  private rateLimiter = new RateLimiter(EVENT_RATE_LIMITS, DEFAULT_RATE_LIMIT);
+  private strikes = new TokenBucket(STRIKE_LIMIT.capacity, STRIKE_LIMIT.refillPerSecond);
+  private disconnecting = false;
+  
+  constructor(socket: Socket) {
+    this.socket = socket;
+  }
+  
+  // Listen for an event, handing the handler only payloads that passed
+  on<E extends InboundEventName>(event: E, handler: (data: InboundEvents[E]) => void): void {
+    this.socket.on(event as string, (payload: unknown) => {
+      if (this.disconnecting) return;
+      
+      if (!this.rateLimiter.allow(event)) {
+        this.reject(event, 'rate_limited', 'Too many messages, slow down');
+        return;
+      }
+      
+      let data: InboundEvents[E];
+      try {
+        data = inboundEventSchemas[event](payload, 'payload');
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        this.reject(event, 'invalid_payload', error.message);
+        return;
+      }
+      
+      handler(data);
+    });
+  }
+  
+  private reject(event: string, code: InboundErrorCode, message: string): void {
+    const error: InboundError = { event, code, message };
+    this.socket.emit('error:event', error);
+    
+    if (this.strikes.take()) return;
+    
+    // Out of strikes - tell the client why and drop it
+    console.log(`Disconnecting ${this.socket.id}: too many rejected messages (last: ${event}, ${code})`);
+    this.disconnecting = true;
+    this.socket.emit('error:event', {
+      event,
+      code: 'too_many_errors',
+      message: 'Disconnected for sending too many invalid or rate-limited messages'
+    } as InboundError);
+    this.socket.disconnect(true);
+  }
+}
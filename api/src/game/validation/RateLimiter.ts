@@ -0,0 +1,61 @@
+// Token bucket: holds up to `capacity` tokens and refills continuously at
+// `refillPerSecond`. Each action spends one token; with none left the action
+// is refused. This allows short bursts while capping the sustained rate.
+export class TokenBucket {
+  private capacity: number;
+  private refillPerSecond: number;
+  private tokens: number;
+  private lastRefill: number;
+  
+  constructor(capacity: number, refillPerSecond: number, now: number = Date.now()) {
+    this.capacity = capacity;
+    this.refillPerSecond = refillPerSecond;
+    this.tokens = capacity;
+    this.lastRefill = now;
+  }
+  
+  // Spend a token if one is available
+  take(now: number = Date.now()): boolean {
+    this.refill(now);
+    if (this.tokens < 1) return false;
+    
+    this.tokens -= 1;
+    return true;
+  }
+  
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+export interface RateLimit {
+  capacity: number; // Largest burst allowed
+  refillPerSecond: number; // Sustained rate allowed
+}
+
+// Per-client limits, one bucket per event name. Events without a configured
+// limit use the fallback limit.
+export class RateLimiter {
+  private limits: Record<string, RateLimit>;
+  private fallback: RateLimit;
+  private buckets: Map<string, TokenBucket> = new Map();
+  
+  constructor(limits: Record<string, RateLimit>, fallback: RateLimit) {
+    this.limits = limits;
+    this.fallback = fallback;
+  }
+  
+  // Whether the client may send this event now (spends a token if so)
+  allow(event: string, now: number = Date.now()): boolean {
+    let bucket = this.buckets.get(event);
+    if (!bucket) {
+      const limit = this.limits[event] || this.fallback;
+      bucket = new TokenBucket(limit.capacity, limit.refillPerSecond, now);
+      this.buckets.set(event, bucket);
+    }
+    
+    return bucket.take(now);
+  }
+}
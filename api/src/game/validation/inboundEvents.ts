@@ -0,0 +1,163 @@
+import { AllianceRequestInput, AllianceResponseInput, AmmoSelectInput, BroadsideSide, ControlsInput, FireInput, JoinRequest, UpgradePickInput } from '../types';
+import { SHIP_CLASSES } from '../ShipClasses';
+import { AMMO_TYPES, AmmoType } from '../Ammo';
+import { UPGRADES, UpgradeType } from '../Upgrades';
+import { NPC_DIFFICULTIES, NpcDifficulty } from '../Npc';
+import { Schema, ValidationError, boolean, empty, number, object, oneOf, optional, string, transform } from './schema';
+
+export const MAX_NAME_LENGTH = 16;
+const DEFAULT_NAME = 'Guest';
+
+// Raw names longer than this are rejected outright rather than trimmed
+const MAX_RAW_NAME_LENGTH = 64;
+
+// Largest value a u32 input/snapshot sequence can take
+const MAX_SEQUENCE = 0xffffffff;
+
+// Keep letters, digits, spaces and a little punctuation; collapse whitespace and
+// cap the length. Names that end up empty become "Guest".
+export function sanitizeName(raw: string): string {
+  const name = raw
+    .normalize('NFKC')
+    .replace(/[^\p{L}\p{N} _'.-]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_NAME_LENGTH)
+    .trim();
+  
+  return name || DEFAULT_NAME;
+}
+
+const sequence = number({ integer: true, min: 0, max: MAX_SEQUENCE });
+const timestamp = number({ min: 0 });
+
+// Admin panel settings, bounded well outside what the panel offers but tight
+// enough that a bad value can't flood or stall a world
+const spawnQuantity = number({ integer: true, min: 0, max: 100 });
+const spawnInterval = number({ integer: true, min: 100, max: 600000 });
+const rockCount = number({ integer: true, min: 0, max: 3000 }); // Up to the world's default rock cap
+
+export interface SpawnSettingsInput {
+  wood: number;
+  chest: number;
+  rock: number;
+}
+
+export interface RockSettingsInput {
+  initial: number;
+  max: number;
+}
+
+export interface LagCompensationInput {
+  maxRewindMs: number;
+}
+
+export interface BroadsideSettingsInput {
+  cannonStaggerMs: number;
+}
+
+export interface NpcSettingsInput {
+  count: number;
+  difficulty: NpcDifficulty;
+}
+
+// Payload type of every event a client may send
+export interface InboundEvents {
+  'player:join': JoinRequest;
+  'snapshot:ack': number;
+  'player:controls': ControlsInput;
+  'player:fire': FireInput | undefined;
+  'request:ships': void;
+  'player:upgrade_pick': UpgradePickInput;
+  'player:ammo_select': AmmoSelectInput;
+  'alliance:request': AllianceRequestInput;
+  'alliance:respond': AllianceResponseInput;
+  'alliance:leave': void;
+  'admin:config:spawn_rates': SpawnSettingsInput;
+  'admin:config:spawn_intervals': SpawnSettingsInput;
+  'admin:config:rocks': RockSettingsInput;
+  'admin:config:lag_compensation': LagCompensationInput;
+  'admin:config:broadside': BroadsideSettingsInput;
+  'admin:config:npcs': NpcSettingsInput;
+  'admin:action:respawn_rocks': void;
+  'admin:get_config': void;
+}
+
+export type InboundEventName = keyof InboundEvents;
+
+const spawnRates = object<SpawnSettingsInput>({
+  wood: spawnQuantity,
+  chest: spawnQuantity,
+  rock: spawnQuantity
+});
+
+const spawnIntervals = object<SpawnSettingsInput>({
+  wood: spawnInterval,
+  chest: spawnInterval,
+  rock: spawnInterval
+});
+
+// The world never starts with more rocks than it may hold
+const rockSettings = transform(object<RockSettingsInput>({
+  initial: rockCount,
+  max: rockCount
+}), settings => {
+  if (settings.initial > settings.max) {
+    throw new ValidationError('payload.initial must be at most payload.max');
+  }
+  return settings;
+});
+
+// Schema for each inbound event
+export const inboundEventSchemas: { [E in InboundEventName]: Schema<InboundEvents[E]> } = {
+  'player:join': object<JoinRequest>({
+    name: transform(optional(string({ maxLength: MAX_RAW_NAME_LENGTH })), name => sanitizeName(name || '')),
+    shipType: number({ integer: true, min: 0, max: SHIP_CLASSES.length - 1 }),
+    protocol: optional(oneOf('json', 'binary')),
+    room: optional(string({ maxLength: 64 })) // Ids the RoomManager doesn't accept fall back to automatic placement
+  }),
+  'snapshot:ack': sequence,
+  'player:controls': object<ControlsInput>({
+    moveForward: boolean(),
+    rotateLeft: boolean(),
+    rotateRight: boolean(),
+    brake: boolean(),
+    sequence: optional(sequence),
+    timestamp: optional(timestamp)
+  }),
+  'player:fire': optional(object<FireInput>({
+    viewTime: optional(timestamp),
+    side: optional(oneOf<BroadsideSide>('port', 'starboard'))
+  })),
+  'request:ships': empty(),
+  'player:upgrade_pick': object<UpgradePickInput>({
+    offerId: number({ integer: true, min: 1 }),
+    upgrade: oneOf<UpgradeType>(...UPGRADES.map(upgrade => upgrade.type))
+  }),
+  'player:ammo_select': object<AmmoSelectInput>({
+    type: oneOf<AmmoType>(...AMMO_TYPES.map(ammo => ammo.type))
+  }),
+  'alliance:request': object<AllianceRequestInput>({
+    playerId: string({ maxLength: 64 })
+  }),
+  'alliance:respond': object<AllianceResponseInput>({
+    playerId: string({ maxLength: 64 }),
+    accept: boolean()
+  }),
+  'alliance:leave': empty(),
+  'admin:config:spawn_rates': spawnRates,
+  'admin:config:spawn_intervals': spawnIntervals,
+  'admin:config:rocks': rockSettings,
+  'admin:config:lag_compensation': object<LagCompensationInput>({
+    maxRewindMs: number({ min: 0, max: 1000 })
+  }),
+  'admin:config:broadside': object<BroadsideSettingsInput>({
+    cannonStaggerMs: number({ min: 0, max: 500 })
+  }),
+  'admin:config:npcs': object<NpcSettingsInput>({
+    count: number({ integer: true, min: 0, max: 50 }),
+    difficulty: oneOf<NpcDifficulty>(...Object.keys(NPC_DIFFICULTIES) as NpcDifficulty[])
+  }),
+  'admin:action:respawn_rocks': empty(),
+  'admin:get_config': empty()
+};
@@ -0,0 +1,113 @@
+// Minimal schema helpers for checking what clients send us.
+//
+// A schema is a function that takes an untrusted value and either returns a
+// clean, correctly typed copy of it or throws a ValidationError describing the
+// first problem found. Object schemas only copy the fields they declare, so
+// unexpected extra fields never reach the game.
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export interface StringOptions {
+  maxLength?: number;
+  pattern?: RegExp;
+}
+
+export function boolean(): Schema<boolean> {
+  return (value, path) => {
+    if (typeof value !== 'boolean') {
+      throw new ValidationError(`${path} must be a boolean`);
+    }
+    return value;
+  };
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new ValidationError(`${path} must be a finite number`);
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      throw new ValidationError(`${path} must be an integer`);
+    }
+    if (options.min !== undefined && value < options.min) {
+      throw new ValidationError(`${path} must be at least ${options.min}`);
+    }
+    if (options.max !== undefined && value > options.max) {
+      throw new ValidationError(`${path} must be at most ${options.max}`);
+    }
+    return value;
+  };
+}
+
+export function string(options: StringOptions = {}): Schema<string> {
+  return (value, path) => {
+    if (typeof value !== 'string') {
+      throw new ValidationError(`${path} must be a string`);
+    }
+    if (options.maxLength !== undefined && value.length > options.maxLength) {
+      throw new ValidationError(`${path} must be at most ${options.maxLength} characters`);
+    }
+    if (options.pattern && !options.pattern.test(value)) {
+      throw new ValidationError(`${path} has an invalid format`);
+    }
+    return value;
+  };
+}
+
+// One of a fixed set of string values
+export function oneOf<T extends string>(...values: T[]): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !(values as string[]).includes(value)) {
+      throw new ValidationError(`${path} must be one of: ${values.join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+// Accept undefined (or null) as "not provided"
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : schema(value, path));
+}
+
+// Run a cleanup step after the value has passed its schema
+export function transform<T, U>(schema: Schema<T>, fn: (value: T) => U): Schema<U> {
+  return (value, path) => fn(schema(value, path));
+}
+
+// Plain object with the given fields; anything else on the object is dropped
+export function object<T>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(`${path} must be an object`);
+    }
+    
+    const input = value as Record<string, unknown>;
+    const result = {} as T;
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const fieldValue = Object.prototype.hasOwnProperty.call(input, key) ? input[key] : undefined;
+      const parsed = shape[key](fieldValue, `${path}.${key}`);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    }
+    return result;
+  };
+}
+
+// Events that carry no payload; whatever the client sent is ignored
+export function empty(): Schema<void> {
+  return () => undefined;
+}
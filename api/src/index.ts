@@ -3,6 +3,9 @@ import http from 'http';
 import { Server } from 'socket.io';
 import cors from 'cors';
 import { GameServer } from './game/GameServer';
+import { RoomSettings } from './game/types';
+import { GAME_MODE_TYPES } from './game/modes/GameModes';
+import { GameModeType } from './game/modes/GameMode';
 
 // Create Express app
 const app = express();
@@ -41,8 +44,31 @@ io.engine.on("connection_error", (err) => {
   console.log("Connection error:", err.req.url, err.code, err.message, err.context);
 });
 
-// Initialize game server
-const gameServer = new GameServer(io);
+// Initialize game server (set WORLD_SEED to reproduce a specific world,
+// ROOM_MAX_PLAYERS to change how many players fit in each room, NPC_COUNT
+// for how many NPC ships sail each room, TEAM_COUNT to split each room into
+// fixed teams, GAME_MODE for the rules rooms play by)
+const roomSettings: Partial<RoomSettings> = {};
+if (process.env.WORLD_SEED) {
+  roomSettings.seed = parseInt(process.env.WORLD_SEED, 10);
+}
+if (process.env.ROOM_MAX_PLAYERS) {
+  roomSettings.maxPlayers = parseInt(process.env.ROOM_MAX_PLAYERS, 10);
+}
+if (process.env.NPC_COUNT) {
+  roomSettings.npcCount = parseInt(process.env.NPC_COUNT, 10);
+}
+if (process.env.TEAM_COUNT) {
+  roomSettings.teams = parseInt(process.env.TEAM_COUNT, 10);
+}
+if (process.env.GAME_MODE) {
+  if (GAME_MODE_TYPES.includes(process.env.GAME_MODE as GameModeType)) {
+    roomSettings.mode = process.env.GAME_MODE as GameModeType;
+  } else {
+    console.warn(`Unknown GAME_MODE "${process.env.GAME_MODE}" (expected one of ${GAME_MODE_TYPES.join(', ')}), using the sandbox`);
+  }
+}
+const gameServer = new GameServer(io, roomSettings);
 gameServer.start();
 
 // Handle basic routes
@@ -56,7 +82,8 @@ app.get('/health', (req, res) => {
     status: 'ok',
     uptime: process.uptime(),
     playerCount: gameServer.getPlayerCount(),
-    socketCount: io.engine.clientsCount
+    socketCount: io.engine.clientsCount,
+    rooms: gameServer.getRoomStats()
   });
 });
 
@@ -0,0 +1,291 @@
+import { World } from '../game/World';
+import { Player } from '../game/entities/Player';
+import { Random } from '../game/Random';
+import { BroadsideSide, PlayerControls } from '../game/types';
+
+// How simulated captains steer and shoot
+export type BotStrategy = 'random' | 'seeker' | 'mixed';
+
+export interface SimulationOptions {
+  players: number;
+  minutes: number;
+  seed: number;
+  strategy: BotStrategy;
+  tickRate: number;
+  
+  // Balance overrides (left at World/Player defaults when undefined)
+  woodSpawnQuantity?: number;
+  maxWoodCount?: number;
+  woodSpawnIntervalMs?: number;
+  cannonUnlockHpStep?: number;
+}
+
+export interface SimulationReport {
+  seed: number;
+  players: number;
+  simulatedMinutes: number;
+  ticks: number;
+  wallTimeMs: number;
+  averageHp: number;
+  finalAverageHp: number;
+  peakHp: number;
+  totalKills: number;
+  killsPerMinute: number;
+  cannonUnlocks: number;
+  averageTimeToFirstUnlockSec: number | null;
+  medianTimeToFirstUnlockSec: number | null;
+  averageWoodCount: number;
+  finalCounts: { wood: number, chests: number, rocks: number, projectiles: number, players: number };
+}
+
+// Per-bot bookkeeping the World doesn't track
+interface BotState {
+  player: Player;
+  strategy: 'random' | 'seeker';
+  nextDecisionTick: number;
+  stuckTicks: number;
+  lastPosition: { x: number, y: number };
+  firstUnlockTick: number | null;
+}
+
+// Range at which bots will take a broadside shot
+const FIRE_RANGE = 450;
+
+// How far off perpendicular (radians) a target may be and still get shot at
+const BROADSIDE_TOLERANCE = Math.PI / 6;
+
+// Drives a World with scripted or random bots, without Socket.IO, and collects balance stats
+export class HeadlessSimulation {
+  private options: SimulationOptions;
+  private world: World;
+  private random: Random;
+  private bots: BotState[] = [];
+  
+  constructor(options: SimulationOptions) {
+    this.options = options;
+    
+    this.world = new World(11000, 11000, undefined, options.seed);
+    
+    // Bots get their own stream so their decisions don't perturb world spawns
+    this.random = new Random(options.seed + 1);
+    
+    const config = this.world.getGameConfiguration();
+    if (options.woodSpawnQuantity !== undefined) {
+      this.world.setResourceSpawnRates(options.woodSpawnQuantity, config.chestSpawnQuantity, config.rockSpawnQuantity);
+    }
+    if (options.woodSpawnIntervalMs !== undefined) {
+      this.world.setResourceSpawnIntervals(options.woodSpawnIntervalMs, config.chestSpawnIntervalMs, config.rockSpawnIntervalMs);
+    }
+    if (options.maxWoodCount !== undefined) {
+      this.world.setMaxWoodCount(options.maxWoodCount);
+    }
+    if (options.cannonUnlockHpStep !== undefined) {
+      this.world.setCannonUnlockHpStep(options.cannonUnlockHpStep);
+    }
+    
+    // Add the simulated players
+    for (let i = 0; i < options.players; i++) {
+      const player = new Player(
+        `bot-${i}`,
+        `Bot ${i + 1}`,
+        this.world.getRandomSpawnPosition(),
+        i % 6,
+        1, // Initial HP
+        2, // Initial cannons (1 per side)
+        this.world.random
+      );
+      this.world.addPlayer(player);
+      
+      const strategy = options.strategy === 'mixed'
+        ? (i % 2 === 0 ? 'seeker' : 'random')
+        : options.strategy;
+      
+      this.bots.push({
+        player,
+        strategy,
+        nextDecisionTick: 0,
+        stuckTicks: 0,
+        lastPosition: { ...player.position },
+        firstUnlockTick: null
+      });
+    }
+    
+    this.world.startResourceSpawning();
+  }
+  
+  // Run the simulation to completion and build a report
+  run(): SimulationReport {
+    const deltaTime = 1000 / this.options.tickRate;
+    const totalTicks = Math.round(this.options.minutes * 60 * this.options.tickRate);
+    const sampleEvery = this.options.tickRate; // Sample stats once per simulated second
+    
+    let hpSampleSum = 0;
+    let hpSampleCount = 0;
+    let woodSampleSum = 0;
+    let woodSampleCount = 0;
+    let peakHp = 0;
+    
+    const startTime = Date.now();
+    
+    for (let tick = 0; tick < totalTicks; tick++) {
+      // Let every bot pick its controls and decide whether to fire
+      for (const bot of this.bots) {
+        this.driveBot(bot, tick);
+      }
+      
+      this.world.update(deltaTime);
+      
+      // Record first cannon unlocks
+      for (const bot of this.bots) {
+        if (bot.firstUnlockTick === null && bot.player.cannons > 2) {
+          bot.firstUnlockTick = tick;
+        }
+        peakHp = Math.max(peakHp, bot.player.hp);
+      }
+      
+      // Periodic sampling
+      if (tick % sampleEvery === 0) {
+        for (const bot of this.bots) {
+          hpSampleSum += bot.player.hp;
+          hpSampleCount++;
+        }
+        woodSampleSum += this.world.getEntityCounts().wood;
+        woodSampleCount++;
+      }
+    }
+    
+    const wallTimeMs = Date.now() - startTime;
+    
+    // Time-to-first-unlock in simulated seconds
+    const unlockTimes = this.bots
+      .filter(bot => bot.firstUnlockTick !== null)
+      .map(bot => (bot.firstUnlockTick as number) / this.options.tickRate)
+      .sort((a, b) => a - b);
+    
+    const totalKills = this.bots.reduce((sum, bot) => sum + bot.player.kills, 0);
+    const finalAverageHp = this.bots.length > 0
+      ? this.bots.reduce((sum, bot) => sum + bot.player.hp, 0) / this.bots.length
+      : 0;
+    
+    return {
+      seed: this.options.seed,
+      players: this.options.players,
+      simulatedMinutes: this.options.minutes,
+      ticks: totalTicks,
+      wallTimeMs,
+      averageHp: hpSampleCount > 0 ? hpSampleSum / hpSampleCount : 0,
+      finalAverageHp,
+      peakHp,
+      totalKills,
+      killsPerMinute: this.options.minutes > 0 ? totalKills / this.options.minutes : 0,
+      cannonUnlocks: unlockTimes.length,
+      averageTimeToFirstUnlockSec: unlockTimes.length > 0
+        ? unlockTimes.reduce((sum, t) => sum + t, 0) / unlockTimes.length
+        : null,
+      medianTimeToFirstUnlockSec: unlockTimes.length > 0
+        ? unlockTimes[Math.floor(unlockTimes.length / 2)]
+        : null,
+      averageWoodCount: woodSampleCount > 0 ? woodSampleSum / woodSampleCount : 0,
+      finalCounts: this.world.getEntityCounts()
+    };
+  }
+  
+  // Choose controls for a bot and fire when a target is abeam
+  private driveBot(bot: BotState, tick: number): void {
+    const player = bot.player;
+    
+    // Detect bots pinned against rocks or other ships
+    const moved = Math.abs(player.position.x - bot.lastPosition.x) + Math.abs(player.position.y - bot.lastPosition.y);
+    bot.stuckTicks = player.controls.moveForward && moved < 0.01 ? bot.stuckTicks + 1 : 0;
+    bot.lastPosition = { ...player.position };
+    
+    if (bot.stuckTicks > 30) {
+      // Turn away for a while
+      const turnLeft = this.random.next() < 0.5;
+      player.controls = { moveForward: true, rotateLeft: turnLeft, rotateRight: !turnLeft, brake: false };
+      bot.nextDecisionTick = tick + 30 + this.random.int(0, 30);
+      bot.stuckTicks = 0;
+    } else if (tick >= bot.nextDecisionTick) {
+      if (bot.strategy === 'seeker') {
+        player.controls = this.seekControls(player);
+        bot.nextDecisionTick = tick + 6;
+      } else {
+        player.controls = this.randomControls();
+        bot.nextDecisionTick = tick + this.random.int(30, 120);
+      }
+    }
+    
+    // Fire at any enemy sitting roughly broadside-on
+    const side = this.getBroadsideTarget(player);
+    if (side && player.canFire(side)) {
+      this.world.createProjectiles(player, 0, [side]);
+    }
+  }
+  
+  // Wander: mostly sail forward with occasional turns
+  private randomControls(): PlayerControls {
+    const turn = this.random.next();
+    return {
+      moveForward: this.random.next() < 0.85,
+      rotateLeft: turn < 0.3,
+      rotateRight: turn > 0.7,
+      brake: false
+    };
+  }
+  
+  // Steer toward the nearest visible wood, or wander if none is in sight
+  private seekControls(player: Player): PlayerControls {
+    const visible = this.world.getVisibleEntities(player);
+    let target: { x: number, y: number } | null = null;
+    let bestDistance = Infinity;
+    
+    for (const resource of visible.resources) {
+      const distance = player.distanceTo(resource);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        target = resource.position;
+      }
+    }
+    
+    if (!target) {
+      return this.randomControls();
+    }
+    
+    const desiredAngle = Math.atan2(target.y - player.position.y, target.x - player.position.x);
+    const diff = this.angleDifference(desiredAngle, player.angle);
+    
+    return {
+      moveForward: true,
+      rotateLeft: diff < -0.1,
+      rotateRight: diff > 0.1,
+      brake: false
+    };
+  }
+  
+  // Which beam (if either) has an enemy ship within range
+  private getBroadsideTarget(player: Player): BroadsideSide | null {
+    for (const other of this.bots) {
+      if (other.player === player) continue;
+      
+      const dx = other.player.position.x - player.position.x;
+      const dy = other.player.position.y - player.position.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance > FIRE_RANGE + other.player.size) continue;
+      
+      // Starboard is a quarter turn clockwise of the heading, port a quarter turn anticlockwise
+      const bearing = this.angleDifference(Math.atan2(dy, dx), player.angle);
+      if (Math.abs(Math.abs(bearing) - Math.PI / 2) < BROADSIDE_TOLERANCE) {
+        return bearing > 0 ? 'starboard' : 'port';
+      }
+    }
+    return null;
+  }
+  
+  // Signed smallest difference between two angles, in [-PI, PI]
+  private angleDifference(a: number, b: number): number {
+    let diff = (a - b) % (Math.PI * 2);
+    if (diff > Math.PI) diff -= Math.PI * 2;
+    if (diff < -Math.PI) diff += Math.PI * 2;
+    return diff;
+  }
+}
@@ -0,0 +1,121 @@
+import { HeadlessSimulation, SimulationOptions, SimulationReport, BotStrategy } from './HeadlessSimulation';
+
+// Headless balance runner: builds a World without Socket.IO, lets bots play it for
+// a number of simulated minutes and prints the resulting stats.
+//
+// Usage: npm run simulate --workspace=api -- [options]
+//   --players <n>           Number of simulated ships (default 20)
+//   --minutes <n>           Simulated minutes to run (default 10)
+//   --seed <n>              World seed (default 1)
+//   --strategy <s>          random | seeker | mixed (default mixed)
+//   --tick-rate <n>         Simulation ticks per second (default 60)
+//   --wood-quantity <n>     Override woodSpawnQuantity
+//   --wood-interval <ms>    Override woodSpawnIntervalMs
+//   --max-wood <n>          Override maxWoodCount
+//   --cannon-step <n>       Override HP per extra pair of cannons
+//   --json                  Print the report as JSON
+//   --verbose               Keep World's console logging
+
+const STRATEGIES: BotStrategy[] = ['random', 'seeker', 'mixed'];
+
+function parseArgs(argv: string[]): { options: SimulationOptions, json: boolean, verbose: boolean } {
+  const args = new Map<string, string>();
+  const flags = new Set<string>();
+  
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+    
+    const key = arg.slice(2);
+    if (key === 'json' || key === 'verbose') {
+      flags.add(key);
+    } else {
+      const value = argv[++i];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      args.set(key, value);
+    }
+  }
+  
+  const number = (key: string, fallback?: number): number | undefined => {
+    const raw = args.get(key);
+    if (raw === undefined) return fallback;
+    
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid value for --${key}: ${raw}`);
+    }
+    return value;
+  };
+  
+  const strategy = (args.get('strategy') || 'mixed') as BotStrategy;
+  if (!STRATEGIES.includes(strategy)) {
+    throw new Error(`Invalid strategy: ${strategy} (expected ${STRATEGIES.join(', ')})`);
+  }
+  
+  return {
+    options: {
+      players: number('players', 20) as number,
+      minutes: number('minutes', 10) as number,
+      seed: number('seed', 1) as number,
+      strategy,
+      tickRate: number('tick-rate', 60) as number,
+      woodSpawnQuantity: number('wood-quantity'),
+      woodSpawnIntervalMs: number('wood-interval'),
+      maxWoodCount: number('max-wood'),
+      cannonUnlockHpStep: number('cannon-step')
+    },
+    json: flags.has('json'),
+    verbose: flags.has('verbose')
+  };
+}
+
+function formatSeconds(value: number | null): string {
+  return value === null ? 'never' : `${value.toFixed(1)}s`;
+}
+
+function printReport(report: SimulationReport): void {
+  console.log(`Simulated ${report.simulatedMinutes} min with ${report.players} ships (seed ${report.seed}, ${report.ticks} ticks in ${(report.wallTimeMs / 1000).toFixed(1)}s)`);
+  console.log('');
+  const rows: [string, string][] = [
+    ['Average HP', report.averageHp.toFixed(2)],
+    ['Final average HP', report.finalAverageHp.toFixed(2)],
+    ['Peak HP', String(report.peakHp)],
+    ['Kills', `${report.totalKills} (${report.killsPerMinute.toFixed(2)}/min)`],
+    ['Ships that unlocked cannons', `${report.cannonUnlocks}/${report.players}`],
+    ['Time to first unlock', `avg ${formatSeconds(report.averageTimeToFirstUnlockSec)}, median ${formatSeconds(report.medianTimeToFirstUnlockSec)}`],
+    ['Average wood on map', report.averageWoodCount.toFixed(1)],
+    ['Final counts', `wood ${report.finalCounts.wood}, chests ${report.finalCounts.chests}, rocks ${report.finalCounts.rocks}`]
+  ];
+  rows.forEach(([label, value]) => console.log(`  ${(label + ':').padEnd(30)}${value}`));
+}
+
+function main(): void {
+  let parsed;
+  try {
+    parsed = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  
+  // World logs every spawn and join; silence it unless asked
+  const log = console.log;
+  if (!parsed.verbose) {
+    console.log = () => {};
+  }
+  
+  const report = new HeadlessSimulation(parsed.options).run();
+  
+  console.log = log;
+  if (parsed.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+}
+
+main();
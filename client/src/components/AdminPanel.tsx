@@ -18,6 +18,10 @@ interface GameConfig {
   rockSpawnIntervalMs: number;
   resourceCount: number;
   playerCount: number;
+  maxRewindMs: number;
+  cannonStaggerMs: number;
+  npcCount: number;
+  npcDifficulty: string;
 }
 
 const AdminPanel: React.FC<AdminPanelProps> = ({ socket, visible }) => {
@@ -36,6 +40,12 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ socket, visible }) => {
     initial: 30,
     max: 50
   });
+  const [maxRewindMs, setMaxRewindMs] = useState(200);
+  const [cannonStaggerMs, setCannonStaggerMs] = useState(0);
+  const [npcConfig, setNpcConfig] = useState({
+    count: 4,
+    difficulty: 'normal'
+  });
 
   useEffect(() => {
     // Request initial configuration
@@ -62,6 +72,14 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ socket, visible }) => {
         initial: newConfig.initialRockCount,
         max: newConfig.maxRockCount
       });
+      
+      setMaxRewindMs(newConfig.maxRewindMs);
+      setCannonStaggerMs(newConfig.cannonStaggerMs);
+      
+      setNpcConfig({
+        count: newConfig.npcCount,
+        difficulty: newConfig.npcDifficulty
+      });
     });
 
     return () => {
@@ -106,6 +124,18 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ socket, visible }) => {
     socket.emit('admin:config:rocks', rockConfig);
   };
 
+  const applyLagCompensation = () => {
+    socket.emit('admin:config:lag_compensation', { maxRewindMs });
+  };
+
+  const applyBroadside = () => {
+    socket.emit('admin:config:broadside', { cannonStaggerMs });
+  };
+
+  const applyNpcConfig = () => {
+    socket.emit('admin:config:npcs', npcConfig);
+  };
+
   const respawnRocks = () => {
     socket.emit('admin:action:respawn_rocks');
   };
@@ -236,6 +266,74 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ socket, visible }) => {
           <button onClick={respawnRocks}>Respawn Rocks</button>
         </div>
       </div>
+      
+      <div className="config-section">
+        <h3>Lag Compensation</h3>
+        <div className="input-group">
+          <label>
+            Max Rewind (ms):
+            <input 
+              type="number" 
+              name="maxRewindMs" 
+              min="0" 
+              max="1000" 
+              step="50"
+              value={maxRewindMs} 
+              onChange={e => setMaxRewindMs(parseInt(e.target.value))} 
+            />
+          </label>
+          <button onClick={applyLagCompensation}>Apply</button>
+        </div>
+      </div>
+      
+      <div className="config-section">
+        <h3>Broadsides</h3>
+        <div className="input-group">
+          <label>
+            Cannon Stagger (ms):
+            <input 
+              type="number" 
+              name="cannonStaggerMs" 
+              min="0" 
+              max="500" 
+              step="10"
+              value={cannonStaggerMs} 
+              onChange={e => setCannonStaggerMs(parseInt(e.target.value))} 
+            />
+          </label>
+          <button onClick={applyBroadside}>Apply</button>
+        </div>
+      </div>
+      
+      <div className="config-section">
+        <h3>NPC Ships</h3>
+        <div className="input-group">
+          <label>
+            Count:
+            <input 
+              type="number" 
+              name="count" 
+              min="0" 
+              max="50" 
+              value={npcConfig.count} 
+              onChange={e => setNpcConfig(prev => ({ ...prev, count: parseInt(e.target.value) }))} 
+            />
+          </label>
+          <label>
+            Difficulty:
+            <select 
+              name="difficulty" 
+              value={npcConfig.difficulty} 
+              onChange={e => setNpcConfig(prev => ({ ...prev, difficulty: e.target.value }))}
+            >
+              <option value="easy">Easy</option>
+              <option value="normal">Normal</option>
+              <option value="hard">Hard</option>
+            </select>
+          </label>
+          <button onClick={applyNpcConfig}>Apply</button>
+        </div>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { Socket } from 'socket.io-client';
+
+interface AlliancePanelProps {
+  socket: Socket;
+  alliance: AllianceStatus | null;
+}
+
+// Our alliance as the server describes it (see api/src/game/Alliances.ts)
+export interface AllianceStatus {
+  id: number;
+  name: string;
+  color: string;
+  members: Array<{ id: string, name: string }>;
+  maxSize: number | null; // null = no cap (teams)
+  fixed: boolean; // A team: assigned by the server and can't be left
+}
+
+interface AllianceRequest {
+  id: string;
+  name: string;
+}
+
+// How long alliance messages stay on screen
+const NOTICE_DURATION_MS = 4000;
+
+// Our alliance or team, requests from other captains (Y/N to answer the oldest)
+// and messages about how our requests went (the alliance is tracked by
+// GameCanvas, since team mode assigns it as soon as we join)
+const AlliancePanel: React.FC<AlliancePanelProps> = ({ socket, alliance }) => {
+  const [requests, setRequests] = useState<AllianceRequest[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    // A newer request from the same captain replaces the old one
+    const handleRequest = (request: AllianceRequest) => {
+      setRequests(prev => [...prev.filter(r => r.id !== request.id), request]);
+    };
+
+    const handleNotice = (message: string) => {
+      setNotice(message);
+    };
+
+    socket.on('alliance:request', handleRequest);
+    socket.on('alliance:notice', handleNotice);
+
+    return () => {
+      // Only remove our own handlers
+      socket.off('alliance:request', handleRequest);
+      socket.off('alliance:notice', handleNotice);
+    };
+  }, [socket]);
+
+  // Messages fade out after a while
+  useEffect(() => {
+    if (!notice) return;
+
+    const timeout = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [notice]);
+
+  const respond = (request: AllianceRequest, accept: boolean) => {
+    socket.emit('alliance:respond', { playerId: request.id, accept });
+    setRequests(prev => prev.filter(r => r.id !== request.id));
+  };
+
+  const leave = () => {
+    socket.emit('alliance:leave');
+  };
+
+  // Y and N answer the oldest request
+  useEffect(() => {
+    if (requests.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (key === 'y') respond(requests[0], true);
+      if (key === 'n') respond(requests[0], false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [requests]);
+
+  if (!alliance && requests.length === 0 && !notice) return null;
+
+  return (
+    <div className="absolute left-0 top-1/3 m-4 flex flex-col gap-2 text-white w-56">
+      {/* Our alliance */}
+      {alliance && (
+        <div className="bg-black bg-opacity-50 p-2 rounded-lg border-l-4" style={{ borderColor: alliance.color }}>
+          <div className="font-bold text-sm" style={{ color: alliance.color }}>
+            {alliance.name}
+            {alliance.maxSize !== null && ` (${alliance.members.length}/${alliance.maxSize})`}
+          </div>
+          {alliance.members.map(member => (
+            <div key={member.id} className="text-xs">{member.name}</div>
+          ))}
+          {!alliance.fixed && (
+            <button className="mt-1 text-xs px-2 py-0.5 rounded bg-red-900 hover:bg-red-700" onClick={leave}>
+              Leave
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Requests from other captains */}
+      {requests.map((request, i) => (
+        <div key={request.id} className="bg-black bg-opacity-75 p-2 rounded-lg text-sm">
+          <div><span className="text-pirate-gold">{request.name}</span> proposes an alliance</div>
+          <div className="flex gap-2 mt-1">
+            <button className="text-xs px-2 py-0.5 rounded bg-green-800 hover:bg-green-600" onClick={() => respond(request, true)}>
+              Accept{i === 0 && ' (Y)'}
+            </button>
+            <button className="text-xs px-2 py-0.5 rounded bg-red-900 hover:bg-red-700" onClick={() => respond(request, false)}>
+              Decline{i === 0 && ' (N)'}
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {notice && (
+        <div className="bg-black bg-opacity-50 p-2 rounded-lg text-xs italic">{notice}</div>
+      )}
+    </div>
+  );
+};
+
+export default AlliancePanel;
@@ -0,0 +1,66 @@
+import React, { useEffect } from 'react';
+import { Socket } from 'socket.io-client';
+
+interface AmmoPanelProps {
+  socket: Socket;
+  status: AmmoStatus | null;
+}
+
+// What the server tells us about our ammo (see api/src/game/Ammo.ts)
+interface AmmoSlot {
+  type: string;
+  name: string;
+  count: number | null; // null = unlimited
+  capacity: number | null;
+}
+
+export interface AmmoStatus {
+  selected: string;
+  ammo: AmmoSlot[];
+}
+
+// Loaded ammo and what's left of each type; R switches to the next type we have
+// (the status is tracked by GameCanvas, since it arrives as soon as we join)
+const AmmoPanel: React.FC<AmmoPanelProps> = ({ socket, status }) => {
+  useEffect(() => {
+    if (!status) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== 'r' || e.repeat) return;
+
+      // Next type after the loaded one that we still have some of
+      const current = status.ammo.findIndex(slot => slot.type === status.selected);
+      for (let i = 1; i < status.ammo.length; i++) {
+        const slot = status.ammo[(current + i) % status.ammo.length];
+        if (slot.count === null || slot.count > 0) {
+          socket.emit('player:ammo_select', { type: slot.type });
+          return;
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [socket, status]);
+
+  if (!status) return null;
+
+  return (
+    <div className="absolute bottom-0 left-1/2 transform -translate-x-1/2 mb-4 flex gap-2">
+      {status.ammo.map(slot => {
+        const selected = slot.type === status.selected;
+        const empty = slot.count === 0;
+        return (
+          <div
+            key={slot.type}
+            className={`bg-black bg-opacity-50 px-3 py-1 rounded-lg text-sm text-white border-2 ${selected ? 'border-pirate-gold' : 'border-transparent'} ${empty ? 'opacity-50' : ''}`}
+          >
+            {slot.name} {slot.count === null ? '∞' : `${slot.count}/${slot.capacity}`}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AmmoPanel;
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { SHIP_CLASSES, ShipClass, getShipClass } from '../game/shipClasses';
 
 interface GameStartProps {
   onStartGame: (name: string, shipIndex: number) => void;
@@ -8,15 +9,17 @@ const GameStart: React.FC<GameStartProps> = ({ onStartGame }) => {
   const [playerName, setPlayerName] = useState('');
   const [selectedShip, setSelectedShip] = useState(0);
   
-  // Ship options with their image paths
+  // Ship options in picker order, with their image paths
   const shipOptions = [
-    { id: 0, name: 'Crimson Crusader', image: './assets/ships/ship-red.png' },
-    { id: 1, name: 'Sapphire Steed', image: './assets/ships/ship-blue.png' },
-    { id: 2, name: 'Verdant Fang', image: './assets/ships/ship-green.png' },
-    { id: 5, name: 'Obsidian Death', image: './assets/ships/ship-black.png' },
-    { id: 4, name: 'Pale Wanderer', image: './assets/ships/ship-white.png' },
-    { id: 3, name: 'Gilded Ship', image: './assets/ships/ship-yellow.png' },
-  ];
+    { id: 0, image: './assets/ships/ship-red.png' },
+    { id: 1, image: './assets/ships/ship-blue.png' },
+    { id: 2, image: './assets/ships/ship-green.png' },
+    { id: 5, image: './assets/ships/ship-black.png' },
+    { id: 4, image: './assets/ships/ship-white.png' },
+    { id: 3, image: './assets/ships/ship-yellow.png' },
+  ].map(option => ({ ...option, name: getShipClass(option.id).name }));
+  
+  const selectedClass = getShipClass(selectedShip);
 
   // Show banner on initial load
   useEffect(() => {
@@ -44,6 +47,7 @@ const GameStart: React.FC<GameStartProps> = ({ onStartGame }) => {
               value={playerName}
               onChange={(e) => setPlayerName(e.target.value)}
               placeholder="Enter name or play as Guest"
+              maxLength={16}
               className="w-full px-4 py-2 rounded bg-pirate-blue text-white border border-pirate-gold focus:outline-none focus:ring-2 focus:ring-pirate-gold"
             />
           </div>
@@ -68,6 +72,21 @@ const GameStart: React.FC<GameStartProps> = ({ onStartGame }) => {
                 </div>
               ))}
             </div>
+            
+            {/* Stats of the selected class */}
+            <div className="mt-4 p-3 rounded bg-pirate-blue bg-opacity-50">
+              <div className="text-lg text-pirate-gold">{selectedClass.name}</div>
+              <div className="text-sm mb-2">{selectedClass.description}</div>
+              {getShipStats(selectedClass).map(stat => (
+                <div key={stat.label} className="flex items-center text-sm mb-1">
+                  <span className="w-24">{stat.label}</span>
+                  <div className="flex-1 h-2 bg-black bg-opacity-40 rounded mr-2">
+                    <div className="h-2 bg-pirate-gold rounded" style={{ width: `${Math.round(stat.rating * 100)}%` }} />
+                  </div>
+                  <span className="w-16 text-right">{stat.value}</span>
+                </div>
+              ))}
+            </div>
           </div>
           
           <button
@@ -82,6 +101,7 @@ const GameStart: React.FC<GameStartProps> = ({ onStartGame }) => {
       <div className="mt-8 text-white text-center max-w-md">
         <h3 className="text-xl mb-3 text-pirate-gold">Controls:</h3>
         <p className="mb-2">W - Move forward</p>
+        <p className="mb-2">S - Brake / reverse</p>
         <p className="mb-2">A/D - Rotate ship</p>
         <p className="mb-2">Spacebar - Fire cannons</p>
       </div>
@@ -89,4 +109,21 @@ const GameStart: React.FC<GameStartProps> = ({ onStartGame }) => {
   );
 };
 
+// Stat bars for the picker. Each rating is relative to the best class at that
+// stat, so the bars compare ships against each other.
+function getShipStats(shipClass: ShipClass): { label: string, value: string, rating: number }[] {
+  const best = (pick: (c: ShipClass) => number) => Math.max(...SHIP_CLASSES.map(pick));
+  const fastestReload = Math.min(...SHIP_CLASSES.map(c => c.cannonCooldownMs));
+  const quickestGuns = Math.min(...SHIP_CLASSES.map(c => c.growth.cannonHpStep));
+  
+  return [
+    { label: 'Speed', value: `${shipClass.maxSpeed}`, rating: shipClass.maxSpeed / best(c => c.maxSpeed) },
+    { label: 'Turning', value: `${shipClass.turnRate.toFixed(1)}`, rating: shipClass.turnRate / best(c => c.turnRate) },
+    { label: 'Reload', value: `${(shipClass.cannonCooldownMs / 1000).toFixed(1)}s`, rating: fastestReload / shipClass.cannonCooldownMs },
+    { label: 'Shot speed', value: `${shipClass.projectileSpeed}`, rating: shipClass.projectileSpeed / best(c => c.projectileSpeed) },
+    { label: 'Hull', value: `x${shipClass.hullStrength.toFixed(1)}`, rating: shipClass.hullStrength / best(c => c.hullStrength) },
+    { label: 'Gun growth', value: `${shipClass.growth.cannonHpStep} HP`, rating: quickestGuns / shipClass.growth.cannonHpStep }
+  ];
+}
+
 export default GameStart; 
\ No newline at end of file
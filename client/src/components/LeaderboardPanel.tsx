@@ -0,0 +1,70 @@
+import React from 'react';
+
+interface LeaderboardPanelProps {
+  leaderboard: LeaderboardEntry[];
+  stats: PlayerStats | null;
+  playerId?: string;
+}
+
+// The top ships, as the server broadcasts them a few times a second (see api/src/game/Scoring.ts)
+export interface LeaderboardEntry {
+  id: string;
+  name: string;
+  score: number;
+  kills: number;
+}
+
+// Our own standing and what our score is made of (`player:stats`)
+export interface PlayerStats {
+  score: number;
+  rank: number;
+  players: number;
+  kills: number;
+  deaths: number;
+  damageDealt: number;
+  woodCollected: number;
+  peakHp: number;
+  longestLifeMs: number;
+  hp: number;
+  cannonCount: number;
+}
+
+const formatTime = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Top ships by score, with our own line underneath when we're not among them
+const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ leaderboard, stats, playerId }) => {
+  if (leaderboard.length === 0) return null;
+
+  const onBoard = leaderboard.some(entry => entry.id === playerId);
+
+  return (
+    <div className="bg-black bg-opacity-50 p-2 rounded-lg text-white w-56 mt-2">
+      <div className="font-bold text-pirate-gold text-sm mb-1">Leaderboard</div>
+
+      {leaderboard.map((entry, i) => (
+        <div key={entry.id} className={`flex justify-between text-sm ${entry.id === playerId ? 'text-pirate-gold font-bold' : ''}`}>
+          <span className="truncate mr-2">{i + 1}. {entry.name}</span>
+          <span>{entry.score}</span>
+        </div>
+      ))}
+
+      {stats && !onBoard && (
+        <div className="flex justify-between text-sm text-pirate-gold font-bold border-t border-gray-500 mt-1 pt-1">
+          <span>{stats.rank}. You</span>
+          <span>{stats.score}</span>
+        </div>
+      )}
+
+      {stats && (
+        <div className="text-xs text-gray-300 mt-1">
+          {`#${stats.rank} of ${stats.players} · ${stats.kills} kills · ${stats.damageDealt} dmg · ${stats.woodCollected} wood · peak ${stats.peakHp} HP · best life ${formatTime(stats.longestLifeMs)}`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaderboardPanel;
@@ -0,0 +1,81 @@
+import React from 'react';
+
+interface ScoreboardPanelProps {
+  scoreboard: Scoreboard | null;
+  playerId?: string;
+}
+
+// How a match stands, as the server sends it (see api/src/game/modes/GameMode.ts).
+// Modes add fields for what the GameEngine draws (ports, the treasure, the storm).
+export interface Scoreboard {
+  mode: string;
+  state: 'waiting' | 'playing' | 'ended';
+  timeLeftMs: number;
+  scoreLimit: number | null;
+  scores: Array<{ id: string, name: string, color: string | null, score: number }>;
+  winner: string | null;
+  storm?: { phase: number, phases: number, shrinking: boolean, phaseTimeLeftMs: number, damagePerSecond: number } | null;
+  alive?: string[]; // Battle royale: ships still afloat
+}
+
+const MODE_NAMES: Record<string, string> = {
+  treasure: 'Capture the Treasure',
+  royale: 'Battle Royale',
+  hill: 'King of the Hill'
+};
+
+const formatTime = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Scores, time left and the result of match-based modes (the scoreboard is
+// tracked by GameCanvas, since the server sends it as soon as we join)
+const ScoreboardPanel: React.FC<ScoreboardPanelProps> = ({ scoreboard, playerId }) => {
+  if (!scoreboard) return null;
+
+  const { storm, alive } = scoreboard;
+  const spectating = scoreboard.state === 'playing' && !!alive && !!playerId && !alive.includes(playerId);
+
+  return (
+    <div className="bg-black bg-opacity-50 p-2 rounded-lg text-white w-56">
+      <div className="font-bold text-pirate-gold text-sm">{MODE_NAMES[scoreboard.mode] || scoreboard.mode}</div>
+      <div className="text-xs mb-1">
+        {scoreboard.state === 'playing' && `${formatTime(scoreboard.timeLeftMs)} left`}
+        {scoreboard.state === 'playing' && scoreboard.scoreLimit !== null && ` · first to ${scoreboard.scoreLimit}`}
+        {scoreboard.state === 'ended' && `Next match in ${formatTime(scoreboard.timeLeftMs)}`}
+        {scoreboard.state === 'waiting' && (scoreboard.timeLeftMs > 0
+          ? `Match starts in ${formatTime(scoreboard.timeLeftMs)}`
+          : 'Waiting for the next match')}
+      </div>
+
+      {storm && (
+        <div className="text-xs mb-1">
+          {`${alive ? `${alive.length} ships left · ` : ''}Storm ${storm.phase + 1}/${storm.phases} `}
+          {storm.phaseTimeLeftMs > 0 && (storm.shrinking
+            ? `closing in for ${formatTime(storm.phaseTimeLeftMs)}`
+            : `closes in ${formatTime(storm.phaseTimeLeftMs)}`)}
+        </div>
+      )}
+
+      {spectating && (
+        <div className="text-xs text-red-300 mb-1">You're out! Watching until the next match</div>
+      )}
+
+      {scoreboard.state === 'ended' && (
+        <div className="text-sm font-bold mb-1">
+          {scoreboard.winner ? `${scoreboard.winner} won!` : 'A draw!'}
+        </div>
+      )}
+
+      {scoreboard.scores.map(entry => (
+        <div key={entry.id} className="flex justify-between text-sm">
+          <span style={{ color: entry.color || undefined }}>{entry.name}</span>
+          <span>{entry.score}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ScoreboardPanel;
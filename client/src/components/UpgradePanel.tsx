@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { Socket } from 'socket.io-client';
+
+interface UpgradePanelProps {
+  socket: Socket;
+}
+
+// One upgrade as the server describes it (see api/src/game/Upgrades.ts)
+interface UpgradeStatus {
+  type: string;
+  name: string;
+  description: string;
+  level: number;
+  maxLevel: number;
+}
+
+interface UpgradeOffer {
+  id: number;
+  options: UpgradeStatus[];
+}
+
+// Chest upgrades: the offer to pick from (keys 1-3 or click) and the levels we have
+const UpgradePanel: React.FC<UpgradePanelProps> = ({ socket }) => {
+  const [offer, setOffer] = useState<UpgradeOffer | null>(null);
+  const [upgrades, setUpgrades] = useState<UpgradeStatus[]>([]);
+
+  useEffect(() => {
+    const handleOffer = (newOffer: UpgradeOffer) => {
+      setOffer(newOffer);
+    };
+
+    const handleUpgrades = (data: { upgrades: UpgradeStatus[] }) => {
+      setUpgrades(data.upgrades);
+    };
+
+    // Offers (and upgrades) are lost when we sink
+    const handleDied = () => {
+      setOffer(null);
+    };
+
+    socket.on('player:upgrade_offer', handleOffer);
+    socket.on('player:upgrades', handleUpgrades);
+    socket.on('player:died', handleDied);
+
+    return () => {
+      // Only remove our own handlers; the game engine listens to some of these too
+      socket.off('player:upgrade_offer', handleOffer);
+      socket.off('player:upgrades', handleUpgrades);
+      socket.off('player:died', handleDied);
+    };
+  }, [socket]);
+
+  const pick = (option: UpgradeStatus) => {
+    if (!offer) return;
+    socket.emit('player:upgrade_pick', { offerId: offer.id, upgrade: option.type });
+    setOffer(null);
+  };
+
+  // Number keys pick from the open offer
+  useEffect(() => {
+    if (!offer) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const option = offer.options[parseInt(e.key) - 1];
+      if (option) pick(option);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [offer]);
+
+  const owned = upgrades.filter(upgrade => upgrade.level > 0);
+
+  return (
+    <>
+      {/* Upgrade levels */}
+      {owned.length > 0 && (
+        <div className="absolute top-0 left-0 m-4 bg-black bg-opacity-50 p-2 rounded-lg text-white">
+          {owned.map(upgrade => (
+            <div key={upgrade.type} className="text-sm">
+              {upgrade.name}{' '}
+              <span className="text-pirate-gold">
+                {'●'.repeat(upgrade.level)}{'○'.repeat(upgrade.maxLevel - upgrade.level)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Chest offer */}
+      {offer && (
+        <div className="absolute bottom-0 left-1/2 transform -translate-x-1/2 mb-24 bg-black bg-opacity-75 p-4 rounded-lg text-white">
+          <div className="text-center text-pirate-gold font-pirate text-xl mb-2">Treasure! Choose an upgrade</div>
+          <div className="flex gap-2">
+            {offer.options.map((option, i) => (
+              <button
+                key={option.type}
+                className="w-48 p-2 rounded bg-blue-900 hover:bg-blue-700 text-left"
+                onClick={() => pick(option)}
+              >
+                <div className="font-bold">{i + 1}. {option.name}</div>
+                <div className="text-xs">{option.description}</div>
+                <div className="text-xs text-pirate-gold">Level {option.level + 1}/{option.maxLevel}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default UpgradePanel;
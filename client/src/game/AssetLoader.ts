@@ -18,6 +18,9 @@ export class AssetLoader {
   private gameAssets = [
     'rock.png',
     'rock-moss.png', 
+    'rock-mossAAA.png',
+    'rock-EE.png',
+    'rock-mossEEE.png',
     'wood.png',
     'chest.png',
     'cannonball.png',
@@ -133,6 +136,9 @@ export class AssetLoader {
     switch (key) {
       case 'rock':
       case 'rock-moss':
+      case 'rock-mossAAA':
+      case 'rock-EE':
+      case 'rock-mossEEE':
         return '#7D7D7D';
       case 'wood':
         return '#8d6e63';
@@ -3,6 +3,11 @@ import { io, Socket } from 'socket.io-client';
 import GameEngine from './GameEngine';
 import { AssetLoader } from './AssetLoader';
 import AdminPanel from '../components/AdminPanel';
+import UpgradePanel from '../components/UpgradePanel';
+import AmmoPanel, { AmmoStatus } from '../components/AmmoPanel';
+import AlliancePanel, { AllianceStatus } from '../components/AlliancePanel';
+import ScoreboardPanel, { Scoreboard } from '../components/ScoreboardPanel';
+import LeaderboardPanel, { LeaderboardEntry, PlayerStats } from '../components/LeaderboardPanel';
 
 interface GameCanvasProps {
   playerName: string;
@@ -12,8 +17,12 @@ interface GameCanvasProps {
 const GameCanvas: React.FC<GameCanvasProps> = ({ playerName, shipIndex }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [socket, setSocket] = useState<Socket | null>(null);
-  const [_, setStats] = useState({ hp: 1, cannonCount: 2 });
+  const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [killfeed, setKillfeed] = useState<string[]>([]);
+  const [ammoStatus, setAmmoStatus] = useState<AmmoStatus | null>(null);
+  const [alliance, setAlliance] = useState<AllianceStatus | null>(null);
+  const [scoreboard, setScoreboard] = useState<Scoreboard | null>(null);
   const [assetsLoaded, setAssetsLoaded] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [adminPanelVisible, setAdminPanelVisible] = useState(false);
@@ -52,27 +61,60 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ playerName, shipIndex }) => {
 
     const handleConnect = () => {
       console.log('Socket connected successfully with ID:', newSocket.id);
-      newSocket.emit('player:join', { name: playerName, shipType: shipIndex });
+      // A ?room=<id> link puts friends in the same room; otherwise the server picks one
+      const room = new URLSearchParams(window.location.search).get('room') || undefined;
+      newSocket.emit('player:join', { name: playerName, shipType: shipIndex, protocol: 'binary', room });
     };
 
     const handleDisconnect = (reason: string) => {
       console.log(`Socket disconnected: ${reason}`);
     };
 
-    const handleStats = (data: any) => {
+    const handleStats = (data: PlayerStats) => {
       setStats(data);
     };
 
+    const handleLeaderboard = (entries: LeaderboardEntry[]) => {
+      setLeaderboard(entries);
+    };
+
+    const handleRoomJoined = (room: { id: string, players: number, maxPlayers: number }) => {
+      console.log(`Joined room ${room.id} (${room.players}/${room.maxPlayers} players)`);
+    };
+
+    // The server refused one of our messages (bad payload or sending too fast)
+    const handleEventError = (error: { event: string, code: string, message: string }) => {
+      console.warn(`Server rejected ${error.event} (${error.code}): ${error.message}`);
+    };
+
     const handleKillfeed = (message: string) => {
       setKillfeed((prev) => [message, ...prev.slice(0, 4)]);
     };
 
+    const handleAmmo = (status: AmmoStatus) => {
+      setAmmoStatus(status);
+    };
+
+    const handleAlliance = (status: AllianceStatus | null) => {
+      setAlliance(status);
+    };
+
+    const handleScoreboard = (data: Scoreboard) => {
+      setScoreboard(data);
+    };
+
     // Attach event listeners
     newSocket.on('connect_error', handleConnectError);
     newSocket.on('connect', handleConnect);
     newSocket.on('disconnect', handleDisconnect);
     newSocket.on('player:stats', handleStats);
     newSocket.on('game:killfeed', handleKillfeed);
+    newSocket.on('room:joined', handleRoomJoined);
+    newSocket.on('error:event', handleEventError);
+    newSocket.on('player:ammo', handleAmmo);
+    newSocket.on('player:alliance', handleAlliance);
+    newSocket.on('game:scoreboard', handleScoreboard);
+    newSocket.on('game:leaderboard', handleLeaderboard);
 
     setSocket(newSocket);
 
@@ -126,6 +168,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ playerName, shipIndex }) => {
 
     const canvas = canvasRef.current;
     const engine = new GameEngine(canvas, socket, shipIndex);
+    
+    // Team mode may have put us on a team before the engine existed
+    engine.setAlliance(alliance);
 
     // Start game loop
     engine.start();
@@ -136,6 +181,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ playerName, shipIndex }) => {
         case 'w':
           engine.moveForward(true);
           break;
+        case 's':
+          engine.brake(true);
+          break;
         case 'a':
           engine.rotateLeft(true);
           break;
@@ -143,7 +191,14 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ playerName, shipIndex }) => {
           engine.rotateRight(true);
           break;
         case ' ':
-          engine.fireCannons();
+          // Holding space shouldn't send a shot per key repeat
+          if (!e.repeat) engine.fireCannons();
+          break;
+        case 'q':
+          if (!e.repeat) engine.fireCannons('port');
+          break;
+        case 'e':
+          if (!e.repeat) engine.fireCannons('starboard');
           break;
         case '+':
         case '=':
@@ -166,6 +221,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ playerName, shipIndex }) => {
         case 'w':
           engine.moveForward(false);
           break;
+        case 's':
+          engine.brake(false);
+          break;
         case 'a':
           engine.rotateLeft(false);
           break;
@@ -175,8 +233,24 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ playerName, shipIndex }) => {
       }
     };
 
+    // Clicking fires the broadside facing the cursor
+    const handleMouseDown = (e: MouseEvent) => {
+      if (e.button !== 0) return;
+      const rect = canvas.getBoundingClientRect();
+      engine.fireTowards(e.clientX - rect.left, e.clientY - rect.top);
+    };
+
+    // Right-clicking a ship asks its captain to ally
+    const handleContextMenu = (e: MouseEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      engine.requestAllianceAt(e.clientX - rect.left, e.clientY - rect.top);
+    };
+
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
+    canvas.addEventListener('mousedown', handleMouseDown);
+    canvas.addEventListener('contextmenu', handleContextMenu);
 
     // Resize canvas on window resize
     const handleResize = () => {
@@ -192,6 +266,8 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ playerName, shipIndex }) => {
       engine.stop();
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
+      canvas.removeEventListener('mousedown', handleMouseDown);
+      canvas.removeEventListener('contextmenu', handleContextMenu);
       window.removeEventListener('resize', handleResize);
     };
   }, [canvasRef, socket, shipIndex, assetsLoaded]);
@@ -214,16 +290,26 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ playerName, shipIndex }) => {
         <>
           <canvas ref={canvasRef} className="w-full h-full" />
           
+          {/* Match scores in game modes that have them (top left holds the upgrade levels) */}
+          <div className="absolute top-0 left-1/2 transform -translate-x-1/2 mt-4">
+            <ScoreboardPanel scoreboard={scoreboard} playerId={socket?.id} />
+          </div>
+          
           {/* Game UI Overlay */}
           <div className="absolute top-0 left-0 right-0 p-4 flex justify-between">
             <div>
             </div>
             
-            {/* Kill feed */}
-            <div className="bg-black bg-opacity-50 p-2 rounded-lg text-white max-w-xs">
-              {killfeed.map((message, i) => (
-                <div key={i} className="text-sm mb-1">{message}</div>
-              ))}
+            <div className="flex flex-col items-end">
+              {/* Kill feed */}
+              <div className="bg-black bg-opacity-50 p-2 rounded-lg text-white max-w-xs">
+                {killfeed.map((message, i) => (
+                  <div key={i} className="text-sm mb-1">{message}</div>
+                ))}
+              </div>
+
+              {/* Top ships by score, and where we stand */}
+              <LeaderboardPanel leaderboard={leaderboard} stats={stats} playerId={socket?.id} />
             </div>
           </div>
           
@@ -231,13 +317,27 @@ const GameCanvas: React.FC<GameCanvasProps> = ({ playerName, shipIndex }) => {
           <div className="absolute bottom-0 left-0 p-4 bg-black bg-opacity-50 text-white rounded-tr-lg">
             <div className="text-sm">Gather wood wreckage to increase size, HP and cannons</div>
             <div className="text-sm">Destroy rocks to free space</div>
+            <div className="text-sm">Open treasure chests for upgrades (1-3 to pick)</div>
             <div className="text-sm">W: Move Forward</div>
+            <div className="text-sm">S: Brake / Reverse</div>
             <div className="text-sm">A/D: Rotate</div>
-            <div className="text-sm">Space: Fire Cannons</div>
+            <div className="text-sm">Space: Fire Both Broadsides</div>
+            <div className="text-sm">Q/E or Click: Fire Port/Starboard</div>
+            <div className="text-sm">R: Switch Ammo (refill from powder kegs)</div>
+            <div className="text-sm">Right-click a Ship: Propose Alliance (Y/N to answer)</div>
             {/* <div className="text-sm">+/-: Zoom In/Out</div> */}
             {/* <div className="text-sm">`/~: Toggle Admin Panel</div> */}
           </div>
           
+          {/* Chest upgrades */}
+          {socket && <UpgradePanel socket={socket} />}
+          
+          {/* Alliances and teams */}
+          {socket && <AlliancePanel socket={socket} alliance={alliance} />}
+          
+          {/* Ammo */}
+          {socket && <AmmoPanel socket={socket} status={ammoStatus} />}
+          
           {/* Admin Panel */}
           {socket && <AdminPanel socket={socket} visible={adminPanelVisible} />}
         </>
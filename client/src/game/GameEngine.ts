@@ -1,6 +1,51 @@
 import { Socket } from 'socket.io-client';
-import { Ship, Entity, Resource, Rock } from './entities';
+import { Ship, Entity, Resource, Rock, RockType, Zone } from './entities';
 import { AssetLoader } from './AssetLoader';
+import { SnapshotDecoder, SnapshotEntity } from './protocol/SnapshotDecoder';
+import { ShipControls, ShipPredictor } from './prediction/ShipPredictor';
+import { getShipClass } from './shipClasses';
+import { EntityInterpolator } from './interpolation/EntityInterpolator';
+import { ServerClock } from './interpolation/ServerClock';
+import { PROJECTILE_WIND_DRIFT, WindField, WindSnapshot } from './environment/WindField';
+
+// Sides of the ship, looking forward
+export type BroadsideSide = 'port' | 'starboard';
+
+// Explosive shot blast, as its splashRadius in api/src/game/Ammo.ts
+const EXPLOSION_RADIUS = 80;
+const EXPLOSION_DURATION_MS = 400;
+
+// The parts of a `player:alliance` status needed to mark allied ships
+interface AllianceMarker {
+  color: string;
+  members: Array<{ id: string }>;
+}
+
+interface Circle {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// The parts of a `game:scoreboard` drawn on the map: each team's home port and
+// where the treasure is (capture-the-treasure), the storm and who's still
+// afloat (battle royale)
+interface ModeMarkers {
+  state?: 'waiting' | 'playing' | 'ended';
+  ports?: Array<{ name: string, color: string, x: number, y: number, radius: number }>;
+  treasure?: { x: number, y: number, carrierId: string | null } | null;
+  storm?: { shrinking: boolean, phaseTimeLeftMs: number, shrinkMs: number, from: Circle, to: Circle } | null;
+  alive?: string[];
+}
+
+// Sprite for each rock variant
+const ROCK_SPRITES: Record<RockType, string> = {
+  stone: 'rock',
+  mossy: 'rock-moss',
+  boulder: 'rock-mossAAA',
+  powder: 'rock-EE',
+  treasure: 'rock-mossEEE'
+};
 
 class GameEngine {
   private canvas: HTMLCanvasElement;
@@ -11,7 +56,18 @@ class GameEngine {
   private player: Ship | null = null;
   private entities: Entity[] = [];
   private projectiles: any[] = [];
+  private explosions: Array<{ x: number, y: number, radius: number, startTime: number }> = []; // Explosive shot and powder rock blasts being drawn
+  private alliance: { color: string, members: Set<string> } | null = null; // Our alliance or team, to mark allied ships
+  private modeMarkers: ModeMarkers = {}; // Ports and objectives of the room's game mode
+  private modeMarkersTime: number = 0; // When they arrived, to move the storm on between scoreboards
+  private bounties: Map<string, { name: string, value: number }> = new Map(); // Ship id -> the bounty on it
+  private reloads: Record<BroadsideSide, { startTime: number, durationMs: number } | null> = { port: null, starboard: null };
   private viewport = { x: 0, y: 0, width: 0, height: 0 };
+  private snapshotDecoder = new SnapshotDecoder();
+  private wind = new WindField(); // Latest wind from the server
+  private predictor = new ShipPredictor((x, y) => this.wind.sampleAt(x, y));
+  private interpolator = new EntityInterpolator(); // Remote ships are drawn slightly in the past
+  private serverClock = new ServerClock();
   
   // Dynamic zoom level based on player HP
   private baseZoomLevel: number = 1.51;
@@ -36,13 +92,18 @@ class GameEngine {
     moveForward: false,
     rotateLeft: false,
     rotateRight: false,
+    brake: false,
   };
+  
+  // Controls as last sent to the server (null = nothing sent yet)
+  private sentControls: ShipControls | null = null;
 
   constructor(canvas: HTMLCanvasElement, socket: Socket, shipIndex: number) {
     this.canvas = canvas;
     this.ctx = canvas.getContext('2d')!;
     this.socket = socket;
     this.shipIndex = shipIndex;
+    this.predictor.setShipType(shipIndex);
     this.assetLoader = AssetLoader.getInstance();
 
     // Set initial viewport size
@@ -78,40 +139,86 @@ class GameEngine {
 
   private setupSocketListeners(): void {
     // Handle initial game state
-    this.socket.on('game:state', (data) => {
-      this.handleGameState(data);
+    // Every update carries the server time its state corresponds to as a second argument
+    this.socket.on('game:state', (data, serverTime?: number) => {
+      this.handleGameState(data, this.receiveServerTime(serverTime));
     });
 
     // Handle entity updates
-    this.socket.on('game:update', (data) => {
-      this.handleGameUpdate(data);
+    this.socket.on('game:update', (data, serverTime?: number) => {
+      this.handleGameUpdate(data, this.receiveServerTime(serverTime));
+    });
+    
+    // Handle binary delta snapshots (replaces game:update when joined with protocol 'binary')
+    this.socket.on('game:snapshot', (data: ArrayBuffer, serverTime?: number) => {
+      this.handleSnapshot(data, this.receiveServerTime(serverTime));
+    });
+
+    // Wind is rebroadcast every second
+    this.socket.on('world:wind', (wind: WindSnapshot, serverTime?: number) => {
+      this.receiveServerTime(serverTime);
+      this.wind.update(wind);
+    });
+
+    // A powder rock blew up nearby
+    this.socket.on('world:explosion', (data: { x: number, y: number, radius: number }) => {
+      this.explosions.push({ ...data, startTime: performance.now() });
+    });
+
+    // We joined, left or changed alliance (or were put on a team)
+    this.socket.on('player:alliance', (data: AllianceMarker | null) => {
+      this.setAlliance(data);
+    });
+
+    // Match scores, with the game mode's ports and objectives (rebroadcast every second)
+    this.socket.on('game:scoreboard', (data: ModeMarkers) => {
+      this.modeMarkers = data;
+      this.modeMarkersTime = performance.now();
+    });
+
+    // Ships with a price on their head (rebroadcast twice a second)
+    this.socket.on('game:bounties', (data: Array<{ id: string, name: string, value: number }>) => {
+      this.bounties = new Map(data.map(bounty => [bounty.id, { name: bounty.name, value: bounty.value }]));
+    });
+
+    // One of our broadsides fired and is reloading
+    this.socket.on('player:reload', (data: { side: BroadsideSide, durationMs: number }) => {
+      this.reloads[data.side] = { startTime: performance.now(), durationMs: data.durationMs };
+    });
+
+    // Our chest upgrades changed; turning ones change how we predict our ship
+    this.socket.on('player:upgrades', (data: { turnRate: number }) => {
+      if (typeof data?.turnRate === 'number') {
+        this.predictor.setTurnRate(data.turnRate);
+      }
     });
 
     // Add specific listener for ship updates to ensure real-time position sync
-    this.socket.on('ship:update', (shipData) => {
-      this.handleShipUpdate(shipData);
+    this.socket.on('ship:update', (shipData, serverTime?: number) => {
+      this.handleShipUpdate(shipData, this.receiveServerTime(serverTime));
     });
     
     // Add batch ship update handler for more efficient updates
-    this.socket.on('ships:batch_update', (shipsData) => {
+    this.socket.on('ships:batch_update', (shipsData, serverTime?: number) => {
       if (Array.isArray(shipsData)) {
         console.log(`Received batch update with ${shipsData.length} ships`);
+        const time = this.receiveServerTime(serverTime);
         
         // First handle removed ships
         const removals = shipsData.filter(shipData => shipData.removed);
         removals.forEach(shipData => {
-          this.handleShipUpdate(shipData);
+          this.handleShipUpdate(shipData, time);
         });
         
         // Then handle updates and additions
         const updates = shipsData.filter(shipData => !shipData.removed);
         updates.forEach(shipData => {
-          this.handleShipUpdate(shipData);
+          this.handleShipUpdate(shipData, time);
         });
       }
     });
     
-    // Handle entity removal (for disconnected players)
+    // Handle entity removal (for disconnected players and ships sunk out of a match)
     this.socket.on('entity:removed', (data) => {
       if (data && data.id) {
         console.log(`Entity removal event received for: ${data.id.substring(0, 8)}`);
@@ -122,6 +229,7 @@ class GameEngine {
           console.log(`Removed ${removedEntity instanceof Ship ? 'ship' : 'entity'} with ID: ${data.id.substring(0, 8)}`);
           this.entities.splice(entityIndex, 1);
         }
+        this.interpolator.remove(data.id);
       }
     });
 
@@ -129,12 +237,33 @@ class GameEngine {
     this.socket.on('player:died', () => {
       // Show death animation or message if needed
       console.log('You died! Respawning...');
+      // Respawned ships come back loaded
+      this.reloads = { port: null, starboard: null };
       // Show banner on respawn
       (window as any).sdk?.showBanner();
     });
   }
 
-  private handleGameState(state: any): void {
+  // Sync our estimate of the server clock from a message's timestamp, and return
+  // the time to file its state under (servers that don't send one get "now")
+  private receiveServerTime(serverTime?: number): number {
+    if (typeof serverTime !== 'number') {
+      return this.serverClock.now();
+    }
+    
+    this.serverClock.observe(serverTime);
+    return serverTime;
+  }
+  
+  private handleGameState(state: any, serverTime: number): void {
+    // A new join starts a fresh snapshot sequence on the server
+    this.snapshotDecoder.reset();
+    this.interpolator.clear();
+    this.projectiles = [];
+    if (state.wind) {
+      this.wind.update(state.wind);
+    }
+    
     // Initialize player ship
     if (state.player) {
       this.player = new Ship(
@@ -147,6 +276,18 @@ class GameEngine {
         state.player.size,
         state.player.cannons
       );
+      
+      // Predict our own movement from here on
+      this.predictor.reset({
+        x: state.player.x,
+        y: state.player.y,
+        angle: state.player.angle,
+        size: state.player.size,
+        vx: state.player.vx || 0,
+        vy: state.player.vy || 0,
+        speedFactor: (state.player.speedPercent ?? 100) / 100
+      });
+      this.sentControls = null;
     }
 
     // Initialize other entities
@@ -166,7 +307,10 @@ class GameEngine {
             shipData.size,
             shipData.cannons
           );
+          ship.vx = shipData.vx || 0;
+          ship.vy = shipData.vy || 0;
           this.entities.push(ship);
+          this.interpolator.push(ship.id, serverTime, ship);
         }
       });
     }
@@ -193,19 +337,38 @@ class GameEngine {
           rockData.x,
           rockData.y,
           rockData.size,
-          rockData.hp
+          rockData.hp,
+          rockData.rockType
         );
         this.entities.push(rock);
       });
     }
+    
+    // Add control zones (king of the hill)
+    if (state.zones) {
+      state.zones.forEach((zoneData: any) => this.applyZone(zoneData));
+    }
   }
 
-  private handleGameUpdate(update: any): void {
+  private handleGameUpdate(update: any, serverTime: number): void {
     // Update player position if available
     if (update.player && this.player) {
-      this.player.x = update.player.x;
-      this.player.y = update.player.y;
-      this.player.angle = update.player.angle;
+      // Position and angle are predicted locally; reconcile with the server's view
+      this.predictor.reconcile(
+        {
+          x: update.player.x,
+          y: update.player.y,
+          angle: update.player.angle,
+          size: update.player.size,
+          vx: update.player.vx || 0,
+          vy: update.player.vy || 0,
+          speedFactor: (update.player.speedPercent ?? 100) / 100
+        },
+        update.player.lastInputSequence || 0,
+        Date.now()
+      );
+      this.applyPredictedPosition();
+      
       this.player.hp = update.player.hp;
       this.player.size = update.player.size;
       this.player.cannons = update.player.cannons;
@@ -219,26 +382,109 @@ class GameEngine {
     // Handle entity updates
     if (update.entities) {
       // Process entity updates (add, remove, update)
-      this.updateEntities(update.entities);
+      this.updateEntities(update.entities, serverTime);
+    }
+    
+  }
+  
+  private handleSnapshot(data: ArrayBuffer, serverTime: number): void {
+    const snapshot = this.snapshotDecoder.decode(data);
+    
+    // Couldn't apply it - ask the server for a full snapshot
+    if (!snapshot) {
+      this.socket.emit('snapshot:ack', 0);
+      return;
     }
     
-    // Handle projectiles (cannonballs)
-    if (update.projectiles) {
-      // Update projectiles array
-      this.projectiles = update.projectiles.map((p: any) => ({
-        id: p.id,
-        x: p.x,
-        y: p.y,
-        angle: p.angle,
-        ownerId: p.ownerId
-      }));
+    // Let the server use this snapshot as the baseline for future deltas
+    this.socket.emit('snapshot:ack', snapshot.sequence);
+    
+    // Update player state (player and ships share the same format as game:update)
+    if (snapshot.player && this.player) {
+      this.handleGameUpdate({ player: { ...snapshot.player, lastInputSequence: snapshot.inputSequence } }, serverTime);
     }
+    
+    // Apply new and changed entities
+    snapshot.changed.forEach(entity => {
+      if (entity === snapshot.player) return;
+      this.applySnapshotEntity(entity, serverTime);
+    });
+    
+    // Remove entities that left the view. Ships are kept: ships:batch_update
+    // tracks them outside the snapshot view, and disconnects and ships sunk out
+    // of a match send entity:removed.
+    snapshot.removed.forEach(entity => {
+      if (entity.type === 'ship') return;
+      
+      if (entity.type === 'projectile') {
+        this.removeProjectile(entity.id);
+        return;
+      }
+      
+      const entityIndex = this.entities.findIndex(e => e.id === entity.id);
+      if (entityIndex !== -1) {
+        this.entities.splice(entityIndex, 1);
+      }
+    });
   }
   
-  private updateEntities(entityUpdates: any[]): void {
-    // First, remove all existing resources since we'll get a complete new set
-    this.entities = this.entities.filter(e => !(e instanceof Resource));
+  // Add or update a single entity decoded from a snapshot
+  private applySnapshotEntity(entity: SnapshotEntity, serverTime: number): void {
+    if (entity.type === 'ship') {
+      this.handleShipUpdate(entity, serverTime);
+      return;
+    }
+    
+    if (entity.type === 'projectile') {
+      this.updateProjectile(entity, serverTime);
+      return;
+    }
+    
+    const existing = this.entities.find(e => e.id === entity.id);
+    
+    if (entity.type === 'resource') {
+      if (existing) {
+        existing.x = entity.x;
+        existing.y = entity.y;
+      } else {
+        this.entities.push(new Resource(entity.id, entity.x, entity.y, entity.resourceType, entity.value));
+      }
+    } else if (entity.type === 'rock') {
+      if (existing instanceof Rock) {
+        existing.x = entity.x;
+        existing.y = entity.y;
+        existing.hp = entity.hp;
+        existing.maxHp = entity.maxHp;
+        existing.size = entity.size;
+        existing.rockType = entity.rockType;
+      } else {
+        const rock = new Rock(entity.id, entity.x, entity.y, entity.size, entity.hp, entity.rockType);
+        rock.maxHp = entity.maxHp;
+        this.entities.push(rock);
+      }
+    } else if (entity.type === 'zone') {
+      this.applyZone(entity);
+    }
+  }
+  
+  // Add a control zone or update its capture state
+  private applyZone(data: any): void {
+    let zone = this.entities.find(e => e.id === data.id);
+    if (!(zone instanceof Zone)) {
+      zone = new Zone(data.id, data.x, data.y, data.size, data.name);
+      this.entities.push(zone);
+    }
     
+    const existing = zone as Zone;
+    existing.owner = data.owner || '';
+    existing.ownerColor = data.ownerColor || '';
+    existing.capturerColor = data.capturerColor || '';
+    existing.progress = data.progress || 0;
+    existing.contested = !!data.contested;
+  }
+  
+  // Apply a game:update delta: only new, changed and removed entities are sent
+  private updateEntities(entityUpdates: any[], serverTime: number): void {
     // Process entity updates
     entityUpdates.forEach((update) => {
       // Skip updates without id
@@ -246,9 +492,14 @@ class GameEngine {
       
       // Handle entity removal
       if (update.removed) {
-        // Find the entity to remove
+        // Projectiles live in their own list
+        if (this.removeProjectile(update.id)) return;
+        
+        // Find the entity to remove. Ships are kept: ships:batch_update tracks them
+        // outside the view, and disconnects and ships sunk out of a match send
+        // entity:removed.
         const entityIndex = this.entities.findIndex(e => e.id === update.id);
-        if (entityIndex !== -1) {
+        if (entityIndex !== -1 && !(this.entities[entityIndex] instanceof Ship)) {
           console.log(`Removing entity ${update.id.substring(0, 8)} via update`);
           this.entities.splice(entityIndex, 1);
         }
@@ -258,12 +509,20 @@ class GameEngine {
       // Check if this is a ship update (explicit ship check)
       if (update.type === 'ship') {
         // Special handling for ships to ensure proper synchronization
-        this.handleShipUpdate(update);
+        this.handleShipUpdate(update, serverTime);
         return; // Skip remaining processing for ships
       }
       
-      // Handle resources - add them all since we cleared them at the start
+      // Handle projectiles (cannonballs)
+      if (update.type === 'projectile') {
+        this.updateProjectile(update, serverTime);
+        return;
+      }
+      
+      // Handle resources - they never change once spawned, so only add new ones
       if (update.type === 'resource') {
+        if (this.entities.some(e => e.id === update.id)) return;
+        
         const newResource = new Resource(
           update.id,
           update.x,
@@ -275,6 +534,12 @@ class GameEngine {
         return;
       }
       
+      // Control zones change hands but never move
+      if (update.type === 'zone') {
+        this.applyZone(update);
+        return;
+      }
+      
       // Handle other entity types (rocks)
       const existingEntityIndex = this.entities.findIndex(e => e.id === update.id);
       
@@ -297,7 +562,8 @@ class GameEngine {
           update.x,
           update.y,
           update.size || 25,
-          update.hp || 10
+          update.hp || 10,
+          update.rockType
         );
         this.entities.push(newRock);
       }
@@ -324,6 +590,13 @@ class GameEngine {
     // Update controls
     this.updateControls();
     
+    // Move our own ship locally instead of waiting for the server
+    this.predictor.advance(Math.min(deltaTime, 250));
+    this.applyPredictedPosition();
+    
+    // Place everything else on the interpolated timeline
+    this.interpolateEntities();
+    
     // Request ship updates every 200ms for real-time position updates
     if (Math.floor(timestamp / 200) !== Math.floor(this.lastUpdateTime / 200)) {
       this.requestShipUpdates();
@@ -332,6 +605,10 @@ class GameEngine {
     // Draw all visible entities
     this.drawEntities();
     
+    // Wind direction and strength where we are, and how our cannons are loading
+    this.drawWindIndicator();
+    this.drawReloadIndicator();
+    
     // Request next frame
     requestAnimationFrame(this.gameLoop.bind(this));
   }
@@ -443,14 +720,43 @@ class GameEngine {
   private updateControls(): void {
     if (!this.player) return;
     
+    // Only send controls when they change; each change is a numbered input
+    const sent = this.sentControls;
+    if (sent &&
+        sent.moveForward === this.controls.moveForward &&
+        sent.rotateLeft === this.controls.rotateLeft &&
+        sent.rotateRight === this.controls.rotateRight &&
+        sent.brake === this.controls.brake) {
+      return;
+    }
+    
+    const timestamp = Date.now();
+    this.sentControls = { ...this.controls };
+    const sequence = this.predictor.recordInput(this.controls, timestamp);
+    
     // Send control updates to server
     this.socket.emit('player:controls', {
       moveForward: this.controls.moveForward,
       rotateLeft: this.controls.rotateLeft,
       rotateRight: this.controls.rotateRight,
+      brake: this.controls.brake,
+      sequence,
+      timestamp
     });
   }
   
+  // Draw our ship where the predictor puts it
+  private applyPredictedPosition(): void {
+    if (!this.player) return;
+    
+    const state = this.predictor.getDisplayState();
+    this.player.x = state.x;
+    this.player.y = state.y;
+    this.player.angle = state.angle;
+    this.player.vx = state.vx;
+    this.player.vy = state.vy;
+  }
+  
   private drawEntities(): void {
     // Apply zoom transformation
     this.ctx.save();
@@ -463,6 +769,10 @@ class GameEngine {
     const centerX = this.canvas.width / (2 * this.zoomLevel);
     const centerY = this.canvas.height / (2 * this.zoomLevel);
     
+    // Home ports and control zones lie under everything else
+    this.drawPorts(centerX, centerY);
+    this.drawZones(centerX, centerY);
+    
     // Draw all entities (relative to viewport)
     this.entities.forEach(entity => {
       // Check if entity is visible in viewport
@@ -481,25 +791,36 @@ class GameEngine {
       }
     });
     
-    // Draw the player at the exact center
-    if (this.player) {
+    // Draw the player at the exact center (unless we sank out of the match)
+    if (this.player && !this.isSpectating()) {
       this.drawShip(this.player, centerX, centerY);
     }
     
     // Draw projectiles
     if (this.projectiles && this.projectiles.length > 0) {
       this.projectiles.forEach(projectile => {
-        if (this.isProjectileVisible(projectile)) {
+        if (projectile.visible && this.isProjectileVisible(projectile)) {
           const screenX = centerX + (projectile.x - this.player!.x);
           const screenY = centerY + (projectile.y - this.player!.y);
-          this.drawProjectile(screenX, screenY);
+          this.drawProjectile(screenX, screenY, projectile.ammoType, projectile.angle);
         }
       });
     }
     
+    // Draw explosive shot blasts
+    this.drawExplosions(centerX, centerY);
+    
+    // The storm covers everything outside its circle
+    this.drawStorm(centerX, centerY);
+    
     // Restore the canvas context
     this.ctx.restore();
     
+    // Point the way to the treasure, the safe zone and bounties when they're off screen
+    this.drawTreasurePointer();
+    this.drawSafeZonePointer();
+    this.drawBountyPointers();
+    
     // Optional: Draw viewport debug info
     this.drawDebugInfo();
   }
@@ -527,6 +848,16 @@ class GameEngine {
   }
   
   private drawShip(ship: Ship, x: number, y: number): void {
+    // Allies (and we, when in an alliance) sail on a ring of the alliance's colour
+    if (this.alliance && this.alliance.members.has(ship.id)) {
+      this.drawAllyMarker(ship, x, y, this.alliance.color);
+    }
+    
+    const bounty = this.bounties.get(ship.id);
+    if (bounty) {
+      this.drawBountyMarker(ship, x, y, bounty.value);
+    }
+    
     // Save context
     this.ctx.save();
     
@@ -534,6 +865,9 @@ class GameEngine {
     this.ctx.translate(x, y);
     this.ctx.rotate(ship.angle);
     
+    // Foam trail behind the ship while it's under way
+    this.drawWake(ship);
+    
     // Get ship image based on type
     const shipImg = this.assetLoader.getShipImage(ship.shipType);
     
@@ -569,6 +903,11 @@ class GameEngine {
       }
     }
     
+    // The treasure rides on its carrier's deck
+    if (this.modeMarkers.treasure?.carrierId === ship.id) {
+      this.drawTreasureChest(0, 0, 25);
+    }
+    
     // Health bar
     if (ship.hp > 0) {
       const shipWidth = ship.size * this.shipWidthMultiplier;
@@ -581,6 +920,61 @@ class GameEngine {
     this.ctx.restore();
   }
   
+  private drawAllyMarker(ship: Ship, x: number, y: number, color: string): void {
+    const radius = ship.size * Math.max(this.shipWidthMultiplier, this.shipHeightMultiplier) / 2 + 6;
+    
+    this.ctx.save();
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = 3;
+    this.ctx.globalAlpha = 0.8;
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, radius, 0, Math.PI * 2);
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+  
+  // Dashed red ring and the bounty's value over a ship with a price on its head
+  private drawBountyMarker(ship: Ship, x: number, y: number, value: number): void {
+    const radius = ship.size * Math.max(this.shipWidthMultiplier, this.shipHeightMultiplier) / 2 + 14;
+    
+    this.ctx.save();
+    this.ctx.strokeStyle = '#ff5252';
+    this.ctx.lineWidth = 3;
+    this.ctx.setLineDash([10, 8]);
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, radius, 0, Math.PI * 2);
+    this.ctx.stroke();
+    
+    this.ctx.fillStyle = '#ff5252';
+    this.ctx.font = 'bold 16px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(`Bounty ${value}`, x, y - radius - 8);
+    this.ctx.restore();
+  }
+  
+  // Wake trailing from the stern, longer and brighter the faster the ship
+  // sails forward. Drawn in the ship's rotated frame.
+  private drawWake(ship: Ship): void {
+    const forwardSpeed = ship.vx * Math.cos(ship.angle) + ship.vy * Math.sin(ship.angle);
+    if (forwardSpeed < 20) return;
+    
+    const speedRatio = Math.min(1, forwardSpeed / getShipClass(ship.shipType).maxSpeed);
+    const shipWidth = ship.size * this.shipWidthMultiplier;
+    const shipHeight = ship.size * this.shipHeightMultiplier;
+    const sternX = -shipWidth / 2;
+    const length = shipWidth * 0.8 * speedRatio;
+    
+    this.ctx.fillStyle = `rgba(255, 255, 255, ${0.35 * speedRatio})`;
+    this.ctx.beginPath();
+    this.ctx.moveTo(sternX + shipWidth * 0.1, -shipHeight * 0.3);
+    this.ctx.lineTo(sternX - length, -shipHeight * 0.6);
+    this.ctx.lineTo(sternX - length * 0.8, 0);
+    this.ctx.lineTo(sternX - length, shipHeight * 0.6);
+    this.ctx.lineTo(sternX + shipWidth * 0.1, shipHeight * 0.3);
+    this.ctx.closePath();
+    this.ctx.fill();
+  }
+  
   private getShipColor(shipType: number): string {
     const colors = [
       '#d32f2f', // Red
@@ -605,6 +999,26 @@ class GameEngine {
         this.ctx.fillStyle = '#8d6e63';
         this.ctx.fillRect(x - 15, y - 5, 30, 10);
       }
+    } else if (resource.resourceType === 'ammo') {
+      // Powder keg
+      this.ctx.fillStyle = '#6d4c41';
+      this.ctx.fillRect(x - 8, y - 10, 16, 20);
+      this.ctx.strokeStyle = '#3e2723';
+      this.ctx.lineWidth = 2;
+      this.ctx.strokeRect(x - 8, y - 10, 16, 20);
+      this.ctx.beginPath();
+      this.ctx.moveTo(x - 8, y - 4);
+      this.ctx.lineTo(x + 8, y - 4);
+      this.ctx.moveTo(x - 8, y + 4);
+      this.ctx.lineTo(x + 8, y + 4);
+      this.ctx.stroke();
+    } else if (resource.resourceType === 'treasure') {
+      // Glowing so it stands out from ordinary chests
+      this.ctx.fillStyle = 'rgba(255, 215, 0, 0.3)';
+      this.ctx.beginPath();
+      this.ctx.arc(x, y, 28, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.drawTreasureChest(x, y, 35);
     } else if (resource.resourceType === 'chest') {
       const chestImg = this.assetLoader.getImage('chest');
       if (chestImg) {
@@ -621,16 +1035,250 @@ class GameEngine {
     }
   }
   
+  private drawTreasureChest(x: number, y: number, size: number): void {
+    const chestImg = this.assetLoader.getImage('chest');
+    if (chestImg) {
+      this.ctx.drawImage(chestImg, x - size / 2, y - size / 2, size, size);
+    } else {
+      // Fallback
+      this.ctx.fillStyle = '#ffd700';
+      this.ctx.fillRect(x - size / 2, y - size / 3, size, size * 2 / 3);
+    }
+  }
+  
+  // Each team's home port: a ring in the team's colour with its name
+  private drawPorts(centerX: number, centerY: number): void {
+    if (!this.player || !this.modeMarkers.ports) return;
+    
+    this.ctx.save();
+    this.ctx.font = 'bold 20px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    
+    for (const port of this.modeMarkers.ports) {
+      const x = centerX + (port.x - this.player.x);
+      const y = centerY + (port.y - this.player.y);
+      
+      this.ctx.globalAlpha = 0.15;
+      this.ctx.fillStyle = port.color;
+      this.ctx.beginPath();
+      this.ctx.arc(x, y, port.radius, 0, Math.PI * 2);
+      this.ctx.fill();
+      
+      this.ctx.globalAlpha = 0.8;
+      this.ctx.strokeStyle = port.color;
+      this.ctx.lineWidth = 4;
+      this.ctx.setLineDash([20, 12]);
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
+      
+      this.ctx.fillText(`${port.name} Port`, x, y);
+    }
+    
+    this.ctx.restore();
+  }
+  
+  // Control zones: a ring in the owner's colour, the capture progress as an arc
+  // around it in the capturer's colour, and a warning while it's contested
+  private drawZones(centerX: number, centerY: number): void {
+    if (!this.player) return;
+    
+    this.ctx.save();
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    
+    for (const zone of this.entities) {
+      if (!(zone instanceof Zone) || !this.isEntityVisible(zone)) continue;
+      
+      const x = centerX + (zone.x - this.player.x);
+      const y = centerY + (zone.y - this.player.y);
+      const color = zone.ownerColor || '#ffffff';
+      
+      this.ctx.globalAlpha = zone.owner ? 0.15 : 0.06;
+      this.ctx.fillStyle = color;
+      this.ctx.beginPath();
+      this.ctx.arc(x, y, zone.size, 0, Math.PI * 2);
+      this.ctx.fill();
+      
+      this.ctx.globalAlpha = 0.8;
+      this.ctx.strokeStyle = zone.contested ? '#ff5252' : color;
+      this.ctx.lineWidth = 4;
+      this.ctx.setLineDash(zone.contested ? [12, 12] : []);
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
+      
+      // Progress fills clockwise from the top
+      if (zone.progress > 0 && zone.capturerColor) {
+        this.ctx.globalAlpha = 1;
+        this.ctx.strokeStyle = zone.capturerColor;
+        this.ctx.lineWidth = 10;
+        this.ctx.beginPath();
+        this.ctx.arc(x, y, zone.size + 10, -Math.PI / 2, -Math.PI / 2 + zone.progress / 100 * Math.PI * 2);
+        this.ctx.stroke();
+      }
+      
+      this.ctx.globalAlpha = 0.9;
+      this.ctx.fillStyle = color;
+      this.ctx.font = 'bold 28px Arial';
+      this.ctx.fillText(`Zone ${zone.name}`, x, y - 12);
+      this.ctx.font = '16px Arial';
+      this.ctx.fillText(zone.contested ? 'Contested!' : zone.owner || 'Unclaimed', x, y + 16);
+    }
+    
+    this.ctx.restore();
+  }
+  
+  // Arrow at the edge of the screen towards the treasure (or whoever carries
+  // it), unless it's in view or on our own deck
+  private drawTreasurePointer(): void {
+    const treasure = this.modeMarkers.treasure;
+    if (!this.player || !treasure || treasure.carrierId === this.player.id) return;
+    
+    // The carrier's position is fresher than the last scoreboard
+    const carrier = treasure.carrierId ? this.entities.find(entity => entity.id === treasure.carrierId) : undefined;
+    this.drawEdgeArrow(carrier ? carrier.x : treasure.x, carrier ? carrier.y : treasure.y, '#ffd700', 'Treasure');
+  }
+  
+  // Whether we sank out of a battle royale match and are watching the rest of it
+  private isSpectating(): boolean {
+    const { state, alive } = this.modeMarkers;
+    return !!this.player && state === 'playing' && !!alive && !alive.includes(this.player.id);
+  }
+  
+  // Where the storm circle is now, moved on from the last scoreboard while it shrinks
+  private getStormCircle(): Circle | null {
+    const storm = this.modeMarkers.storm;
+    if (!storm) return null;
+    if (!storm.shrinking) return storm.from;
+    
+    const timeLeft = Math.max(0, storm.phaseTimeLeftMs - (performance.now() - this.modeMarkersTime));
+    const progress = 1 - timeLeft / storm.shrinkMs;
+    return {
+      x: storm.from.x + (storm.to.x - storm.from.x) * progress,
+      y: storm.from.y + (storm.to.y - storm.from.y) * progress,
+      radius: storm.from.radius + (storm.to.radius - storm.from.radius) * progress
+    };
+  }
+  
+  // Tint everything outside the storm circle, and mark the next safe zone with
+  // a dashed ring
+  private drawStorm(centerX: number, centerY: number): void {
+    const storm = this.modeMarkers.storm;
+    const circle = this.getStormCircle();
+    if (!this.player || !storm || !circle) return;
+    
+    const toScreenX = (x: number) => centerX + (x - this.player!.x);
+    const toScreenY = (y: number) => centerY + (y - this.player!.y);
+    
+    this.ctx.save();
+    
+    // The whole view, minus the circle
+    this.ctx.fillStyle = 'rgba(88, 40, 130, 0.35)';
+    this.ctx.beginPath();
+    this.ctx.rect(0, 0, centerX * 2, centerY * 2);
+    this.ctx.arc(toScreenX(circle.x), toScreenY(circle.y), Math.max(0, circle.radius), 0, Math.PI * 2);
+    this.ctx.fill('evenodd');
+    
+    this.ctx.strokeStyle = 'rgba(156, 39, 176, 0.9)';
+    this.ctx.lineWidth = 6;
+    this.ctx.beginPath();
+    this.ctx.arc(toScreenX(circle.x), toScreenY(circle.y), Math.max(0, circle.radius), 0, Math.PI * 2);
+    this.ctx.stroke();
+    
+    if (storm.to.radius > 0) {
+      this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+      this.ctx.lineWidth = 3;
+      this.ctx.setLineDash([24, 16]);
+      this.ctx.beginPath();
+      this.ctx.arc(toScreenX(storm.to.x), toScreenY(storm.to.y), storm.to.radius, 0, Math.PI * 2);
+      this.ctx.stroke();
+    }
+    
+    this.ctx.restore();
+  }
+  
+  // Arrow towards the next safe zone while we're outside it
+  private drawSafeZonePointer(): void {
+    const storm = this.modeMarkers.storm;
+    if (!this.player || !storm || this.isSpectating()) return;
+    
+    const distance = Math.hypot(this.player.x - storm.to.x, this.player.y - storm.to.y);
+    if (distance > storm.to.radius) {
+      this.drawEdgeArrow(storm.to.x, storm.to.y, 'white', 'Safe zone');
+    }
+  }
+  
+  // Arrows towards every other ship with a bounty on it (we know where all ships are)
+  private drawBountyPointers(): void {
+    if (!this.player) return;
+    
+    for (const [id, bounty] of this.bounties) {
+      if (id === this.player.id) continue;
+      
+      const ship = this.entities.find(entity => entity.id === id);
+      if (ship) {
+        this.drawEdgeArrow(ship.x, ship.y, '#ff5252', `${bounty.name}: ${bounty.value}`);
+      }
+    }
+  }
+  
+  // Arrow pinned to the edge of the screen, pointing at a world position that's
+  // off screen
+  private drawEdgeArrow(worldX: number, worldY: number, color: string, label: string): void {
+    if (!this.player) return;
+    
+    const margin = 40;
+    const halfWidth = this.canvas.width / 2;
+    const halfHeight = this.canvas.height / 2;
+    const dx = (worldX - this.player.x) * this.zoomLevel;
+    const dy = (worldY - this.player.y) * this.zoomLevel;
+    if (Math.abs(dx) < halfWidth && Math.abs(dy) < halfHeight) return;
+    
+    // Where the line towards the target leaves the screen, pulled in by the margin
+    const scale = Math.min((halfWidth - margin) / Math.abs(dx || 1), (halfHeight - margin) / Math.abs(dy || 1));
+    const x = halfWidth + dx * scale;
+    const y = halfHeight + dy * scale;
+    
+    this.ctx.save();
+    this.ctx.translate(x, y);
+    
+    this.ctx.save();
+    this.ctx.rotate(Math.atan2(dy, dx));
+    this.ctx.fillStyle = color;
+    this.ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(16, 0);
+    this.ctx.lineTo(-10, -10);
+    this.ctx.lineTo(-10, 10);
+    this.ctx.closePath();
+    this.ctx.fill();
+    this.ctx.stroke();
+    this.ctx.restore();
+    
+    this.ctx.fillStyle = 'white';
+    this.ctx.font = '12px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(label, 0, -18);
+    this.ctx.restore();
+  }
+  
   private drawRock(rock: Rock, x: number, y: number): void {
-    // Choose between normal rock and mossy rock image
-    // Use mossy rocks occasionally based on a hash of the rock's id
-    const rockImg = this.assetLoader.getImage(
-      (parseInt(rock.id, 36) % 4 === 0) ? 'rock-moss' : 'rock'
-    );
+    // Each variant has its own sprite
+    const rockImg = this.assetLoader.getImage(ROCK_SPRITES[rock.rockType] || 'rock');
     
     if (rockImg) {
       const size = rock.size * 2;
       this.ctx.drawImage(rockImg, x - size / 2, y - size / 2, size, size);
+      
+      // Warn that powder rocks explode when destroyed
+      if (rock.rockType === 'powder') {
+        this.ctx.strokeStyle = 'rgba(211, 47, 47, 0.6)';
+        this.ctx.lineWidth = 2;
+        this.ctx.beginPath();
+        this.ctx.arc(x, y, rock.size, 0, Math.PI * 2);
+        this.ctx.stroke();
+      }
     } else {
       // Fallback
       this.ctx.fillStyle = '#7D7D7D';
@@ -681,9 +1329,62 @@ class GameEngine {
     this.controls.rotateRight = active;
   }
   
-  public fireCannons(): void {
-    // Send cannon fire event to server
-    this.socket.emit('player:fire');
+  // Slow down, then back up
+  public brake(active: boolean): void {
+    this.controls.brake = active;
+  }
+  
+  // How far behind the server remote ships are drawn (ms). Higher values hide
+  // more jitter at the cost of seeing enemies later.
+  public setInterpolationDelay(delay: number): void {
+    this.interpolator.setDelay(delay);
+  }
+  
+  // Fire one side, or both when no side is given
+  public fireCannons(side?: BroadsideSide): void {
+    // Send cannon fire event to server, with the server time of what we were
+    // looking at so it can rewind targets to where we saw them
+    this.socket.emit('player:fire', {
+      viewTime: this.interpolator.getRenderTime(this.serverClock.now()),
+      side
+    });
+  }
+  
+  // Fire the side facing a point on the canvas (in CSS pixels, e.g. a mouse click)
+  public fireTowards(canvasX: number, canvasY: number): void {
+    if (!this.player) return;
+    
+    // We're always drawn at the middle of the canvas; zoom doesn't change directions
+    const rect = this.canvas.getBoundingClientRect();
+    const dx = canvasX - rect.width / 2;
+    const dy = canvasY - rect.height / 2;
+    
+    // Positive cross product = clockwise of our heading = starboard
+    const cross = Math.cos(this.player.angle) * dy - Math.sin(this.player.angle) * dx;
+    this.fireCannons(cross > 0 ? 'starboard' : 'port');
+  }
+
+  // Mark the members of our alliance (null = we're in none)
+  public setAlliance(alliance: AllianceMarker | null): void {
+    this.alliance = alliance ? { color: alliance.color, members: new Set(alliance.members.map(member => member.id)) } : null;
+  }
+
+  // Ask the captain of the ship under the cursor to ally with us
+  public requestAllianceAt(canvasX: number, canvasY: number): void {
+    if (!this.player) return;
+    
+    // Canvas position to world position; we're drawn at the middle of the canvas
+    const rect = this.canvas.getBoundingClientRect();
+    const worldX = this.player.x + (canvasX - rect.width / 2) / this.zoomLevel;
+    const worldY = this.player.y + (canvasY - rect.height / 2) / this.zoomLevel;
+    
+    const ship = this.entities.find(entity =>
+      entity instanceof Ship &&
+      Math.hypot(entity.x - worldX, entity.y - worldY) <= entity.size * this.shipWidthMultiplier / 2
+    );
+    if (ship) {
+      this.socket.emit('alliance:request', { playerId: ship.id });
+    }
   }
 
   // Add method to update zoom level based on player HP
@@ -761,26 +1462,163 @@ class GameEngine {
   }
 
   // Add method to draw projectiles
-  private drawProjectile(x: number, y: number): void {
+  // Special ammo is drawn from the cannonball sprite: chain shot as two balls on a
+  // chain, grapeshot as small pellets and explosive shot with a burning fuse
+  private drawProjectile(x: number, y: number, ammoType: string = 'round', angle: number = 0): void {
     // Save context
     this.ctx.save();
     
+    if (ammoType === 'chain') {
+      // Chain spins across the direction of travel
+      const spin = angle + Math.PI / 2 + performance.now() / 100;
+      const dx = Math.cos(spin) * 7;
+      const dy = Math.sin(spin) * 7;
+      this.ctx.strokeStyle = '#555';
+      this.ctx.lineWidth = 2;
+      this.ctx.beginPath();
+      this.ctx.moveTo(x - dx, y - dy);
+      this.ctx.lineTo(x + dx, y + dy);
+      this.ctx.stroke();
+      this.drawCannonball(x - dx, y - dy, 8);
+      this.drawCannonball(x + dx, y + dy, 8);
+    } else if (ammoType === 'grape') {
+      this.drawCannonball(x, y, 6);
+    } else if (ammoType === 'explosive') {
+      this.drawCannonball(x, y, 14);
+      
+      // Flickering fuse
+      this.ctx.fillStyle = Math.floor(performance.now() / 80) % 2 === 0 ? '#ff9800' : '#ffeb3b';
+      this.ctx.beginPath();
+      this.ctx.arc(x - Math.cos(angle) * 6, y - Math.sin(angle) * 6, 3, 0, Math.PI * 2);
+      this.ctx.fill();
+    } else {
+      this.drawCannonball(x, y, 12);
+    }
+    
+    // Restore context
+    this.ctx.restore();
+  }
+  
+  private drawCannonball(x: number, y: number, size: number): void {
     const cannonballImg = this.assetLoader.getImage('cannonball');
     if (cannonballImg) {
-      const size = 12;
       this.ctx.drawImage(cannonballImg, x - size / 2, y - size / 2, size, size);
     } else {
       // Draw cannonball fallback
       this.ctx.fillStyle = '#000';
       this.ctx.beginPath();
-      this.ctx.arc(x, y, 5, 0, Math.PI * 2);
+      this.ctx.arc(x, y, size / 2.4, 0, Math.PI * 2);
       this.ctx.fill();
     }
+  }
+  
+  // Expanding blast ring the size of the server's blast radius
+  private drawExplosions(centerX: number, centerY: number): void {
+    if (!this.player) return;
     
-    // Restore context
-    this.ctx.restore();
+    const now = performance.now();
+    this.explosions = this.explosions.filter(explosion => now - explosion.startTime < EXPLOSION_DURATION_MS);
+    
+    this.explosions.forEach(explosion => {
+      const progress = (now - explosion.startTime) / EXPLOSION_DURATION_MS;
+      const screenX = centerX + (explosion.x - this.player!.x);
+      const screenY = centerY + (explosion.y - this.player!.y);
+      
+      this.ctx.save();
+      this.ctx.globalAlpha = 1 - progress;
+      this.ctx.fillStyle = '#ff9800';
+      this.ctx.beginPath();
+      this.ctx.arc(screenX, screenY, explosion.radius * (0.3 + 0.7 * progress), 0, Math.PI * 2);
+      this.ctx.fill();
+      this.ctx.restore();
+    });
   }
 
+  // A reload bar for each broadside, above the wind dial
+  private drawReloadIndicator(): void {
+    if (!this.player) return;
+    
+    const width = 100;
+    const height = 8;
+    const right = this.canvas.width - 20;
+    const bottom = this.canvas.height - 150;
+    const now = performance.now();
+    
+    this.ctx.save();
+    this.ctx.font = '12px Arial';
+    this.ctx.textAlign = 'right';
+    this.ctx.textBaseline = 'middle';
+    
+    (['port', 'starboard'] as BroadsideSide[]).forEach((side, i) => {
+      const reload = this.reloads[side];
+      const progress = reload ? Math.min(1, (now - reload.startTime) / reload.durationMs) : 1;
+      const y = bottom - (1 - i) * (height + 12);
+      
+      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+      this.ctx.fillRect(right - width, y, width, height);
+      this.ctx.fillStyle = progress >= 1 ? '#4caf50' : '#ffd700';
+      this.ctx.fillRect(right - width, y, width * progress, height);
+      
+      this.ctx.fillStyle = 'white';
+      this.ctx.fillText(side === 'port' ? 'Port (Q)' : 'Starboard (E)', right - width - 8, y + height / 2);
+    });
+    
+    this.ctx.restore();
+  }
+  
+  // Compass-style dial in the bottom right corner: the arrow points where the
+  // wind at our position blows, and grows with its strength
+  private drawWindIndicator(): void {
+    if (!this.player) return;
+    
+    const wind = this.wind.sampleAt(this.player.x, this.player.y);
+    const strength = Math.min(1, Math.hypot(wind.x, wind.y));
+    const radius = 40;
+    const centerX = this.canvas.width - radius - 20;
+    const centerY = this.canvas.height - radius - 30;
+    
+    this.ctx.save();
+    
+    // Dial
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+    this.ctx.fill();
+    this.ctx.stroke();
+    
+    // Arrow
+    if (strength > 0.01) {
+      const length = radius * (0.3 + 0.6 * strength);
+      this.ctx.save();
+      this.ctx.translate(centerX, centerY);
+      this.ctx.rotate(Math.atan2(wind.y, wind.x));
+      this.ctx.strokeStyle = '#ffd700';
+      this.ctx.fillStyle = '#ffd700';
+      this.ctx.lineWidth = 3;
+      this.ctx.beginPath();
+      this.ctx.moveTo(-length, 0);
+      this.ctx.lineTo(length - 8, 0);
+      this.ctx.stroke();
+      this.ctx.beginPath();
+      this.ctx.moveTo(length, 0);
+      this.ctx.lineTo(length - 10, -6);
+      this.ctx.lineTo(length - 10, 6);
+      this.ctx.closePath();
+      this.ctx.fill();
+      this.ctx.restore();
+    }
+    
+    // Label
+    this.ctx.fillStyle = 'white';
+    this.ctx.font = '12px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(`Wind ${Math.round(strength * 100)}%`, centerX, centerY + radius + 16);
+    
+    this.ctx.restore();
+  }
+  
   // Add a debug method to visualize the viewport boundaries
   private drawDebugInfo(): void {
     this.ctx.save();
@@ -845,7 +1683,7 @@ class GameEngine {
   }
 
   // Add a specific handler for ship updates
-  private handleShipUpdate(shipData: any): void {
+  private handleShipUpdate(shipData: any, serverTime: number): void {
     // Ignore invalid updates
     if (!shipData || !shipData.id) {
       console.warn('Received invalid ship update');
@@ -859,6 +1697,7 @@ class GameEngine {
         console.log(`Removing ship ${shipData.id.substring(0, 8)} via ship:update event`);
         this.entities.splice(shipIndex, 1);
       }
+      this.interpolator.remove(shipData.id);
       return;
     }
     
@@ -868,11 +1707,9 @@ class GameEngine {
       console.log(`Ship update received for ${shipData.id.substring(0, 8)}: (${Math.floor(shipData.x)}, ${Math.floor(shipData.y)})`);
     }
     
-    // If it's our player, update player object
+    // If it's our player, update player object (position is predicted locally and
+    // reconciled from game:update, which says which inputs the server had applied)
     if (this.player && shipData.id === this.player.id) {
-      this.player.x = shipData.x;
-      this.player.y = shipData.y;
-      this.player.angle = shipData.angle;
       this.player.hp = shipData.hp;
       this.player.size = shipData.size;
       this.player.cannons = shipData.cannons;
@@ -886,10 +1723,8 @@ class GameEngine {
       // Update existing ship
       const ship = this.entities[shipIndex] as Ship;
       
-      // Always force-update position and angle for consistent movement
-      ship.x = shipData.x;
-      ship.y = shipData.y;
-      ship.angle = shipData.angle;
+      // Position and angle are buffered and applied by interpolateEntities
+      this.interpolator.push(ship.id, serverTime, shipData);
       
       // Update other properties
       if (shipData.hp !== undefined) ship.hp = shipData.hp;
@@ -897,7 +1732,7 @@ class GameEngine {
       if (shipData.cannons !== undefined) ship.cannons = shipData.cannons;
       
       if (shouldLog) {
-        console.log(`Updated existing ship ${shipData.id.substring(0, 8)} to (${Math.floor(ship.x)}, ${Math.floor(ship.y)})`);
+        console.log(`Buffered ship ${shipData.id.substring(0, 8)} at (${Math.floor(shipData.x)}, ${Math.floor(shipData.y)})`);
       }
     } else {
       // Add new ship
@@ -912,9 +1747,89 @@ class GameEngine {
         shipData.size || 30,
         shipData.cannons || 2
       );
+      newShip.vx = shipData.vx || 0;
+      newShip.vy = shipData.vy || 0;
       this.entities.push(newShip);
+      this.interpolator.push(newShip.id, serverTime, newShip);
     }
   }
+  
+  // Add or update a projectile. We keep the last server position and when it was
+  // there; interpolateEntities moves it along its heading from that.
+  private updateProjectile(data: any, serverTime: number): void {
+    const projectileIndex = this.projectiles.findIndex(p => p.id === data.id);
+    const existing = projectileIndex !== -1 ? this.projectiles[projectileIndex] : null;
+    
+    const projectile = {
+      id: data.id,
+      x: data.x,
+      y: data.y,
+      angle: data.angle,
+      speed: data.speed || 250,
+      ownerId: data.ownerId,
+      ammoType: data.ammoType || 'round',
+      serverX: data.x,
+      serverY: data.y,
+      serverTime,
+      firstSeenTime: existing ? existing.firstSeenTime : serverTime,
+      visible: existing ? existing.visible : false
+    };
+    
+    if (projectileIndex !== -1) {
+      this.projectiles[projectileIndex] = projectile;
+    } else {
+      this.projectiles.push(projectile);
+    }
+  }
+  
+  // Remove a projectile; returns false if there was no such projectile
+  private removeProjectile(id: string): boolean {
+    const projectileIndex = this.projectiles.findIndex(p => p.id === id);
+    if (projectileIndex === -1) return false;
+    
+    // Explosive shot goes off wherever it stops
+    const projectile = this.projectiles[projectileIndex];
+    if (projectile.ammoType === 'explosive' && projectile.visible) {
+      this.explosions.push({ x: projectile.x, y: projectile.y, radius: EXPLOSION_RADIUS, startTime: performance.now() });
+    }
+    
+    this.projectiles.splice(projectileIndex, 1);
+    return true;
+  }
+  
+  // Position remote ships and projectiles for this frame
+  private interpolateEntities(): void {
+    const serverNow = this.serverClock.now();
+    const renderTime = this.interpolator.getRenderTime(serverNow);
+    
+    this.entities.forEach(entity => {
+      if (!(entity instanceof Ship)) return;
+      
+      const transform = this.interpolator.sample(entity.id, renderTime);
+      if (transform) {
+        entity.x = transform.x;
+        entity.y = transform.y;
+        entity.angle = transform.angle;
+        entity.vx = transform.vx ?? 0;
+        entity.vy = transform.vy ?? 0;
+      }
+    });
+    
+    // Cannonballs fly straight (drifting with the wind), so they can be placed
+    // exactly at any time. Our own are shown at the present to line up with our
+    // predicted ship; everyone else's on the same delayed timeline as the ships
+    // that fired them.
+    this.projectiles.forEach(projectile => {
+      const time = this.player && projectile.ownerId === this.player.id ? serverNow : renderTime;
+      const elapsed = (time - projectile.serverTime) / 1000;
+      const wind = this.wind.sampleAt(projectile.serverX, projectile.serverY);
+      projectile.x = projectile.serverX + (Math.cos(projectile.angle) * projectile.speed + wind.x * PROJECTILE_WIND_DRIFT) * elapsed;
+      projectile.y = projectile.serverY + (Math.sin(projectile.angle) * projectile.speed + wind.y * PROJECTILE_WIND_DRIFT) * elapsed;
+      
+      // Don't show it before the moment we first heard of it
+      projectile.visible = time >= projectile.firstSeenTime;
+    });
+  }
 
   // Add a method to request ship updates
   private requestShipUpdates(): void {
@@ -19,6 +19,8 @@ export class Ship extends Entity {
   hp: number;
   shipType: number;
   cannons: number;
+  vx = 0; // Velocity (px/s)
+  vy = 0;
 
   constructor(
     id: string,
@@ -40,35 +42,63 @@ export class Ship extends Entity {
   // Additional ship methods can be added here
 }
 
-// Resource class for wood wreckage and golden chests
+export type ResourceType = 'wood' | 'chest' | 'ammo' | 'treasure';
+
+// Resource class for wood wreckage, golden chests, ammo crates and the
+// capture-the-treasure chest
 export class Resource extends Entity {
-  resourceType: 'wood' | 'chest';
+  resourceType: ResourceType;
   value: number;
 
   constructor(
     id: string,
     x: number,
     y: number,
-    resourceType: 'wood' | 'chest',
+    resourceType: ResourceType,
     value: number
   ) {
     // Size based on resource type
-    const size = resourceType === 'wood' ? 15 : 10;
+    const size = resourceType === 'wood' ? 15 : resourceType === 'treasure' ? 20 : 10;
     super(id, x, y, size);
     this.resourceType = resourceType;
     this.value = value;
   }
 }
 
+// Rock variants (see api/src/game/RockVariants.ts); each has its own sprite
+export type RockType = 'stone' | 'mossy' | 'boulder' | 'powder' | 'treasure';
+
 // Rock class for obstacles
 export class Rock extends Entity {
   hp: number;
   maxHp: number;
+  rockType: RockType;
 
-  constructor(id: string, x: number, y: number, size: number, hp: number) {
+  constructor(id: string, x: number, y: number, size: number, hp: number, rockType: RockType = 'stone') {
     super(id, x, y, size);
     this.hp = hp;
     this.maxHp = hp;
+    this.rockType = rockType;
+  }
+}
+
+// King-of-the-hill control zone (see api/src/game/entities/Zone.ts); `size` is its radius
+export class Zone extends Entity {
+  name: string;
+  owner: string; // Name of the side holding it ('' = nobody)
+  ownerColor: string;
+  capturerColor: string; // Colour of the side taking it
+  progress: number; // Capture progress, 0-100
+  contested: boolean;
+
+  constructor(id: string, x: number, y: number, size: number, name: string) {
+    super(id, x, y, size);
+    this.name = name;
+    this.owner = '';
+    this.ownerColor = '';
+    this.capturerColor = '';
+    this.progress = 0;
+    this.contested = false;
   }
 }
 
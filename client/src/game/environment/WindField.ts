@@ -0,0 +1,67 @@
+// Client copy of the server's wind (api/src/game/Wind.ts).
+//
+// The server broadcasts its wind every second; between broadcasts it changes so
+// slowly that the last one is good enough to predict our own ship and the drift
+// of cannonballs. Sampling must match Wind.sampleAt on the server.
+
+export interface WindSnapshot {
+  angle: number; // Direction the wind blows towards (radians)
+  strength: number; // 0 = calm, 1 = gale
+  regions: {
+    width: number;
+    height: number;
+    grid: number; // Regions per side
+    bends: number[]; // Radians, row-major
+    scales: number[];
+  };
+}
+
+export interface WindVector {
+  x: number;
+  y: number;
+}
+
+// Sideways drift of a cannonball in a full gale (px/s), as Projectile.WIND_DRIFT
+export const PROJECTILE_WIND_DRIFT = 60;
+
+export class WindField {
+  private snapshot: WindSnapshot | null = null;
+
+  update(snapshot: WindSnapshot): void {
+    if (!snapshot || !snapshot.regions) return;
+    this.snapshot = snapshot;
+  }
+
+  // Current global wind, before regional variation
+  getGlobal(): { angle: number, strength: number } {
+    return this.snapshot
+      ? { angle: this.snapshot.angle, strength: this.snapshot.strength }
+      : { angle: 0, strength: 0 };
+  }
+
+  // Wind at a position, as a vector whose length is the local strength (at most 1)
+  sampleAt(x: number, y: number): WindVector {
+    if (!this.snapshot) return { x: 0, y: 0 };
+
+    const { angle: baseAngle, strength: baseStrength, regions } = this.snapshot;
+    const grid = regions.grid;
+
+    // Blend the four nearest region centres
+    const gx = Math.max(0, Math.min(grid - 1, x / regions.width * grid - 0.5));
+    const gy = Math.max(0, Math.min(grid - 1, y / regions.height * grid - 0.5));
+    const col = Math.min(Math.floor(gx), grid - 2);
+    const row = Math.min(Math.floor(gy), grid - 2);
+    const tx = gx - col;
+    const ty = gy - row;
+
+    const blend = (values: number[]): number => {
+      const top = values[row * grid + col] * (1 - tx) + values[row * grid + col + 1] * tx;
+      const bottom = values[(row + 1) * grid + col] * (1 - tx) + values[(row + 1) * grid + col + 1] * tx;
+      return top * (1 - ty) + bottom * ty;
+    };
+
+    const angle = baseAngle + blend(regions.bends);
+    const strength = Math.min(1, baseStrength * blend(regions.scales));
+    return { x: Math.cos(angle) * strength, y: Math.sin(angle) * strength };
+  }
+}
@@ -0,0 +1,181 @@
+// Snapshot interpolation for remote entities.
+//
+// Server updates arrive at irregular intervals (20 Hz ship broadcasts, per-tick
+// view updates, network jitter), so applying them directly makes ships jump.
+// Instead every update is buffered with its server timestamp and entities are
+// drawn a fixed delay behind the server, blending between the two buffered
+// samples around that moment. If the buffer runs dry we extrapolate along the
+// last known velocity (as reported by the server, or else implied by the last
+// two samples) for a short while, then hold.
+
+export interface Transform {
+  x: number;
+  y: number;
+  angle: number;
+  vx?: number; // Velocity (px/s), if known
+  vy?: number;
+}
+
+interface TimedTransform extends Transform {
+  time: number; // Server time (ms)
+}
+
+// Default distance behind server time that entities are drawn at. Needs to cover
+// the gap between updates plus typical jitter.
+export const DEFAULT_INTERPOLATION_DELAY_MS = 100;
+
+// How far past the newest sample we'll guess before freezing in place
+const MAX_EXTRAPOLATION_MS = 250;
+
+// Samples older than this (relative to the newest) are discarded
+const BUFFER_DURATION_MS = 1000;
+
+// Samples further apart than this are a teleport (e.g. respawn), not movement
+const TELEPORT_DISTANCE = 500;
+
+// Smallest signed difference between two angles, in [-PI, PI]
+function angleDifference(a: number, b: number): number {
+  let diff = (a - b) % (Math.PI * 2);
+  if (diff > Math.PI) diff -= Math.PI * 2;
+  if (diff < -Math.PI) diff += Math.PI * 2;
+  return diff;
+}
+
+// Interpolate between two transforms, turning the short way round
+function lerpTransform(from: Transform, to: Transform, t: number): Transform {
+  let angle = from.angle + angleDifference(to.angle, from.angle) * t;
+  angle = angle % (Math.PI * 2);
+  if (angle < 0) angle += Math.PI * 2;
+
+  const result: Transform = {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+    angle
+  };
+
+  if (from.vx !== undefined && from.vy !== undefined && to.vx !== undefined && to.vy !== undefined) {
+    result.vx = from.vx + (to.vx - from.vx) * t;
+    result.vy = from.vy + (to.vy - from.vy) * t;
+  }
+
+  return result;
+}
+
+export class EntityInterpolator {
+  private buffers: Map<string, TimedTransform[]> = new Map();
+  private delay: number;
+
+  constructor(delay: number = DEFAULT_INTERPOLATION_DELAY_MS) {
+    this.delay = delay;
+  }
+
+  // How far behind the server entities are drawn (ms)
+  getDelay(): number {
+    return this.delay;
+  }
+
+  setDelay(delay: number): void {
+    this.delay = Math.max(0, delay);
+  }
+
+  // The server time entities should be drawn at
+  getRenderTime(serverNow: number): number {
+    return serverNow - this.delay;
+  }
+
+  // Buffer an authoritative transform for an entity
+  push(id: string, time: number, transform: Transform): void {
+    let buffer = this.buffers.get(id);
+    if (!buffer) {
+      buffer = [];
+      this.buffers.set(id, buffer);
+    }
+
+    const sample: TimedTransform = { x: transform.x, y: transform.y, angle: transform.angle, vx: transform.vx, vy: transform.vy, time };
+    const newest = buffer[buffer.length - 1];
+
+    if (!newest || time > newest.time) {
+      buffer.push(sample);
+    } else if (time === newest.time) {
+      // Same moment reported twice (view update and broadcast) - keep the latest copy
+      buffer[buffer.length - 1] = sample;
+    } else {
+      // Late arrival - slot it into place so it can still be interpolated through
+      const index = buffer.findIndex(existing => existing.time >= time);
+      if (buffer[index].time === time) {
+        buffer[index] = sample;
+      } else {
+        buffer.splice(index, 0, sample);
+      }
+    }
+
+    // Drop samples too old to matter, keeping at least two
+    while (buffer.length > 2 && buffer[0].time < time - BUFFER_DURATION_MS) {
+      buffer.shift();
+    }
+  }
+
+  // Transform to draw an entity at for the given render time, or null if we
+  // have nothing buffered for it
+  sample(id: string, renderTime: number): Transform | null {
+    const buffer = this.buffers.get(id);
+    if (!buffer || buffer.length === 0) return null;
+
+    // Before the oldest sample - nothing earlier to blend from
+    if (renderTime <= buffer[0].time) {
+      return { ...buffer[0] };
+    }
+
+    // Find the pair of samples around the render time
+    for (let i = buffer.length - 1; i > 0; i--) {
+      const from = buffer[i - 1];
+      const to = buffer[i];
+      if (renderTime >= from.time && renderTime <= to.time) {
+        if (this.isTeleport(from, to)) {
+          return { ...to };
+        }
+
+        const t = (renderTime - from.time) / (to.time - from.time);
+        return lerpTransform(from, to, t);
+      }
+    }
+
+    // Past the newest sample - extrapolate a little, then hold
+    const newest = buffer[buffer.length - 1];
+    const previous = buffer[buffer.length - 2];
+    if (!previous || this.isTeleport(previous, newest)) {
+      return { ...newest };
+    }
+
+    const ahead = Math.min(renderTime - newest.time, MAX_EXTRAPOLATION_MS);
+
+    // Prefer the velocity the server reported over one guessed from positions
+    if (newest.vx !== undefined && newest.vy !== undefined) {
+      return {
+        x: newest.x + newest.vx * ahead / 1000,
+        y: newest.y + newest.vy * ahead / 1000,
+        angle: newest.angle,
+        vx: newest.vx,
+        vy: newest.vy
+      };
+    }
+
+    const t = 1 + ahead / (newest.time - previous.time);
+    return lerpTransform(previous, newest, t);
+  }
+
+  // Stop tracking an entity
+  remove(id: string): void {
+    this.buffers.delete(id);
+  }
+
+  clear(): void {
+    this.buffers.clear();
+  }
+
+  private isTeleport(from: Transform, to: Transform): boolean {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    return dx * dx + dy * dy > TELEPORT_DISTANCE * TELEPORT_DISTANCE;
+  }
+}
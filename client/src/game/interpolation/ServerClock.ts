@@ -0,0 +1,38 @@
+// Estimates the server's clock from the timestamps it attaches to updates.
+//
+// Each message gives `serverTime - localTime`, which is the true clock offset
+// minus however long the message spent in flight. The least-delayed messages
+// are the most accurate, so the estimate jumps forward to any sample that shows
+// less delay and only drifts slowly towards samples that show more (so a burst
+// of late packets doesn't drag the clock backwards).
+export class ServerClock {
+  private offset = 0;
+  private hasSample = false;
+
+  // How quickly the estimate follows samples showing more delay (per sample)
+  private static readonly DRIFT_RATE = 0.01;
+
+  // Feed in a server timestamp from a message that just arrived
+  observe(serverTime: number, localTime: number = Date.now()): void {
+    if (typeof serverTime !== 'number' || !Number.isFinite(serverTime)) return;
+
+    const sample = serverTime - localTime;
+    if (!this.hasSample || sample > this.offset) {
+      this.offset = sample;
+      this.hasSample = true;
+    } else {
+      this.offset += (sample - this.offset) * ServerClock.DRIFT_RATE;
+    }
+  }
+
+  // Current server time estimate (ms)
+  now(localTime: number = Date.now()): number {
+    return localTime + this.offset;
+  }
+
+  // Forget the estimate, e.g. after reconnecting to a different server
+  reset(): void {
+    this.offset = 0;
+    this.hasSample = false;
+  }
+}
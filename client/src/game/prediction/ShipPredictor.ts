@@ -0,0 +1,312 @@
+// Client-side prediction for the local ship.
+//
+// The server only applies controls when they arrive and its state reaches us
+// another half round trip later, so steering straight from server state feels a
+// full round trip behind. Instead we move the ship locally with the same rules as
+// the server's Player.update, and whenever authoritative state arrives we rewind
+// to it and replay the inputs the server hadn't applied yet.
+
+import { ShipClass, getShipClass } from '../shipClasses';
+
+export interface ShipControls {
+  moveForward: boolean;
+  rotateLeft: boolean;
+  rotateRight: boolean;
+  brake: boolean;
+}
+
+export interface ShipState {
+  x: number;
+  y: number;
+  angle: number;
+  size: number;
+  vx: number; // Velocity (px/s)
+  vy: number;
+  speedFactor: number; // Fraction of normal speed (chain shot and carrying the treasure slow ships), as Player.getSpeedFactor
+}
+
+// Local wind as a vector of length 0 (calm) to 1 (gale)
+export interface ShipWind {
+  x: number;
+  y: number;
+}
+
+// Where the predictor gets the wind from
+export type WindSampler = (x: number, y: number) => ShipWind;
+
+interface PendingInput {
+  sequence: number;
+  timestamp: number; // Client clock (ms) when the input was made
+  controls: ShipControls;
+}
+
+// Sailing physics, kept in sync (by convention) with api/src/game/entities/Player.ts.
+// Top speed and turn rate come from the ship class.
+export const SHIP_BASE_SIZE = 20;
+export const SHIP_BRAKE_DECELERATION = 600; // Slowing down while still moving forward (px/s^2)
+export const SHIP_REVERSE_THRUST = 120; // Backing up once stopped (px/s^2)
+export const SHIP_WATER_DRAG = 1.2; // Fraction of forward speed lost per second (exponential)
+export const SHIP_KEEL_DRAG = 4; // Same for sideways drift
+export const SHIP_MAX_REVERSE_SPEED = 100; // Backwards (px/s)
+export const SHIP_STOP_SPEED = 1; // Coasting slower than this comes to rest (px/s)
+export const SHIP_WIND_EFFECT = 0.4; // Thrust and top speed gained (lost) sailing dead downwind (upwind) in a full gale
+export const WORLD_SIZE = 11000;
+
+// The server steps the simulation at this rate, so replays do too
+const SERVER_TICK_MS = 1000 / 60;
+
+// Errors bigger than this (respawns, teleports) are snapped instead of smoothed
+const SNAP_DISTANCE = 250;
+
+// Time for half of a correction to be blended away
+const CORRECTION_HALF_LIFE_MS = 100;
+
+// Cap on remembered inputs, in case the server never acknowledges them
+const MAX_PENDING_INPUTS = 256;
+
+const NO_CONTROLS: ShipControls = { moveForward: false, rotateLeft: false, rotateRight: false, brake: false };
+
+// Thrust/turn multiplier for a ship of the given size, as Player.getHandling
+export function getShipHandling(size: number): number {
+  return Math.pow(SHIP_BASE_SIZE / Math.max(size, SHIP_BASE_SIZE), 0.25);
+}
+
+// Advance a ship by one step, exactly as Player.update does on the server
+export function stepShip(
+  state: ShipState,
+  controls: ShipControls,
+  deltaTime: number,
+  shipClass: ShipClass,
+  wind: ShipWind = { x: 0, y: 0 }
+): void {
+  const deltaSeconds = deltaTime / 1000;
+  const handling = getShipHandling(state.size);
+
+  // Handle rotation
+  if (controls.rotateLeft) {
+    state.angle -= shipClass.turnRate * handling * deltaSeconds;
+  }
+  if (controls.rotateRight) {
+    state.angle += shipClass.turnRate * handling * deltaSeconds;
+  }
+
+  // Normalize angle
+  state.angle = state.angle % (Math.PI * 2);
+  if (state.angle < 0) state.angle += Math.PI * 2;
+
+  // Split velocity into the part along the hull and the sideways drift
+  const headingX = Math.cos(state.angle);
+  const headingY = Math.sin(state.angle);
+  let forwardSpeed = state.vx * headingX + state.vy * headingY;
+  let sideSpeed = state.vy * headingX - state.vx * headingY;
+
+  // Wind behind the sails helps, wind on the bow hinders
+  const sailing = 1 + SHIP_WIND_EFFECT * (wind.x * headingX + wind.y * headingY);
+
+  if (controls.moveForward) {
+    forwardSpeed += shipClass.maxSpeed * SHIP_WATER_DRAG * handling * sailing * state.speedFactor * deltaSeconds;
+  }
+  if (controls.brake) {
+    if (forwardSpeed > 0) {
+      forwardSpeed = Math.max(0, forwardSpeed - SHIP_BRAKE_DECELERATION * handling * deltaSeconds);
+    } else {
+      forwardSpeed -= SHIP_REVERSE_THRUST * handling * deltaSeconds;
+    }
+  }
+
+  // Water drag
+  forwardSpeed *= Math.exp(-SHIP_WATER_DRAG * deltaSeconds);
+  sideSpeed *= Math.exp(-SHIP_KEEL_DRAG * deltaSeconds);
+  forwardSpeed = Math.max(-SHIP_MAX_REVERSE_SPEED, Math.min(forwardSpeed, shipClass.maxSpeed * sailing * state.speedFactor));
+
+  state.vx = headingX * forwardSpeed - headingY * sideSpeed;
+  state.vy = headingY * forwardSpeed + headingX * sideSpeed;
+
+  if (Math.hypot(state.vx, state.vy) < SHIP_STOP_SPEED && !controls.moveForward && !controls.brake) {
+    state.vx = 0;
+    state.vy = 0;
+  }
+
+  state.x += state.vx * deltaSeconds;
+  state.y += state.vy * deltaSeconds;
+
+  // Stay within world bounds, losing the speed going into the edge
+  const maxX = WORLD_SIZE - state.size;
+  const maxY = WORLD_SIZE - state.size;
+  if (state.x < state.size || state.x > maxX) {
+    state.x = Math.max(state.size, Math.min(state.x, maxX));
+    state.vx = 0;
+  }
+  if (state.y < state.size || state.y > maxY) {
+    state.y = Math.max(state.size, Math.min(state.y, maxY));
+    state.vy = 0;
+  }
+}
+
+// Smallest signed difference between two angles, in [-PI, PI]
+function angleDifference(a: number, b: number): number {
+  let diff = (a - b) % (Math.PI * 2);
+  if (diff > Math.PI) diff -= Math.PI * 2;
+  if (diff < -Math.PI) diff += Math.PI * 2;
+  return diff;
+}
+
+export class ShipPredictor {
+  private windAt: WindSampler;
+  private shipClass: ShipClass = getShipClass(0);
+  private nextSequence = 1;
+  private lastAckedSequence = 0;
+
+  // Inputs the server hasn't applied yet, preceded by the last one it has
+  // (which stays in effect until the next one arrives)
+  private inputs: PendingInput[] = [];
+  private currentControls: ShipControls = { ...NO_CONTROLS };
+
+  // Smoothed round trip time, measured from input acknowledgements
+  private roundTripTime = 100;
+  private hasRoundTripSample = false;
+
+  private predicted: ShipState | null = null;
+
+  // Offset between what is drawn and the prediction; decays to zero so
+  // corrections blend in instead of snapping
+  private correction = { x: 0, y: 0, angle: 0 };
+
+  constructor(windAt: WindSampler = () => ({ x: 0, y: 0 })) {
+    this.windAt = windAt;
+  }
+
+  // Use the handling of the ship type we're sailing
+  setShipType(shipType: number): void {
+    this.shipClass = getShipClass(shipType);
+  }
+
+  // Turning upgrades from chests raise the class's turn rate
+  setTurnRate(turnRate: number): void {
+    this.shipClass = { ...this.shipClass, turnRate };
+  }
+
+  // Start predicting from a fresh authoritative state (join or rejoin)
+  reset(state: ShipState): void {
+    this.predicted = { ...state };
+    this.correction = { x: 0, y: 0, angle: 0 };
+    this.inputs = [];
+    this.currentControls = { ...NO_CONTROLS };
+    this.nextSequence = 1;
+    this.lastAckedSequence = 0;
+  }
+
+  // Record a change of controls. Returns the sequence number to send with it.
+  recordInput(controls: ShipControls, timestamp: number): number {
+    const sequence = this.nextSequence++;
+    this.currentControls = { ...controls };
+    this.inputs.push({ sequence, timestamp, controls: { ...controls } });
+    if (this.inputs.length > MAX_PENDING_INPUTS) {
+      this.inputs.shift();
+    }
+    return sequence;
+  }
+
+  // Move the predicted ship forward by one rendered frame
+  advance(deltaTime: number): void {
+    if (!this.predicted) return;
+
+    this.simulate(this.predicted, this.currentControls, deltaTime);
+
+    // Blend away any outstanding correction
+    const decay = Math.pow(0.5, deltaTime / CORRECTION_HALF_LIFE_MS);
+    this.correction.x *= decay;
+    this.correction.y *= decay;
+    this.correction.angle *= decay;
+  }
+
+  // Apply authoritative state from the server. `ackedSequence` is the last input
+  // the server had applied when it produced that state.
+  reconcile(server: ShipState, ackedSequence: number, now: number): void {
+    if (!this.predicted) {
+      this.reset(server);
+      return;
+    }
+
+    // Input acknowledgements double as round trip measurements
+    if (ackedSequence > this.lastAckedSequence) {
+      const acked = this.inputs.find(input => input.sequence === ackedSequence);
+      if (acked) {
+        const sample = now - acked.timestamp;
+        this.roundTripTime = this.hasRoundTripSample ? this.roundTripTime * 0.9 + sample * 0.1 : sample;
+        this.hasRoundTripSample = true;
+      }
+      this.lastAckedSequence = ackedSequence;
+    }
+
+    // Drop inputs the server has moved past, keeping the one still in effect there
+    while (this.inputs.length > 1 && this.inputs[1].sequence <= this.lastAckedSequence) {
+      this.inputs.shift();
+    }
+
+    // The server state is half a round trip old, and inputs take another half to
+    // reach it, so it corresponds to our inputs as of one round trip ago.
+    // Replay everything from then until now on top of it.
+    const replayed: ShipState = { ...server };
+    let time = now - this.roundTripTime;
+    let controls = this.inputs.length > 0 && this.inputs[0].sequence <= this.lastAckedSequence
+      ? this.inputs[0].controls
+      : NO_CONTROLS;
+
+    for (const input of this.inputs) {
+      if (input.sequence <= this.lastAckedSequence) continue;
+
+      if (input.timestamp > time) {
+        this.simulate(replayed, controls, Math.min(input.timestamp, now) - time);
+        time = Math.min(input.timestamp, now);
+      }
+      controls = input.controls;
+    }
+    if (now > time) {
+      this.simulate(replayed, controls, now - time);
+    }
+
+    // Keep drawing from where we were and let the difference blend away,
+    // unless we're so far off that the ship must have been moved (e.g. respawned)
+    const displayed = this.getDisplayState();
+    const dx = displayed.x - replayed.x;
+    const dy = displayed.y - replayed.y;
+    if (dx * dx + dy * dy > SNAP_DISTANCE * SNAP_DISTANCE) {
+      this.correction = { x: 0, y: 0, angle: 0 };
+    } else {
+      this.correction = { x: dx, y: dy, angle: angleDifference(displayed.angle, replayed.angle) };
+    }
+
+    this.predicted = replayed;
+  }
+
+  // Where the local ship should be drawn
+  getDisplayState(): ShipState {
+    if (!this.predicted) {
+      return { x: 0, y: 0, angle: 0, size: 0, vx: 0, vy: 0, speedFactor: 1 };
+    }
+
+    let angle = (this.predicted.angle + this.correction.angle) % (Math.PI * 2);
+    if (angle < 0) angle += Math.PI * 2;
+
+    return {
+      x: this.predicted.x + this.correction.x,
+      y: this.predicted.y + this.correction.y,
+      angle,
+      size: this.predicted.size,
+      vx: this.predicted.vx,
+      vy: this.predicted.vy,
+      speedFactor: this.predicted.speedFactor
+    };
+  }
+
+  // Run the movement rules in server-sized steps so replays match the server
+  private simulate(state: ShipState, controls: ShipControls, deltaTime: number): void {
+    let remaining = deltaTime;
+    while (remaining > 0) {
+      const step = Math.min(remaining, SERVER_TICK_MS);
+      stepShip(state, controls, step, this.shipClass, this.windAt(state.x, state.y));
+      remaining -= step;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+// Little-endian reader over a binary snapshot
+export class BinaryReader {
+  private view: DataView;
+  private bytes: Uint8Array;
+  private offset = 0;
+  private static decoder = new TextDecoder();
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+    this.bytes = new Uint8Array(buffer);
+  }
+
+  readU8(): number {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  readU16(): number {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  readI16(): number {
+    const value = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  readU32(): number {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  readBytes(length: number): Uint8Array {
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  // UTF-8 string with a u8 length prefix
+  readShortString(): string {
+    return BinaryReader.decoder.decode(this.readBytes(this.readU8()));
+  }
+
+  // UTF-8 string with a u16 length prefix
+  readLongString(): string {
+    return BinaryReader.decoder.decode(this.readBytes(this.readU16()));
+  }
+}
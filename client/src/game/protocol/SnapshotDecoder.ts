@@ -0,0 +1,181 @@
+import { BinaryReader } from './BinaryReader';
+import {
+  SNAPSHOT_VERSION,
+  FIXED_POINT_SCALE,
+  HP_SCALE,
+  EXTRAS_MASK_BIT,
+  SnapshotOp,
+  EntityKindDescriptor,
+  FieldDescriptor,
+  ENTITY_KINDS
+} from './snapshotSchema';
+
+// Decoded state of one entity, in the same shape the server's serialize() produces
+export interface SnapshotEntity {
+  netId: number;
+  id: string;
+  type: string;
+  [key: string]: any;
+}
+
+export interface DecodedSnapshot {
+  sequence: number;
+  inputSequence: number; // Last controls input the server applied for us
+  player: SnapshotEntity | null;
+  changed: SnapshotEntity[]; // New or modified since the last applied snapshot
+  removed: SnapshotEntity[]; // No longer in view since the last applied snapshot
+  entities: Map<number, SnapshotEntity>; // Everything in view
+}
+
+// Rebuilds world state from binary delta snapshots. Keeps recent snapshots
+// around because each one is a delta against an older, acknowledged snapshot.
+export class SnapshotDecoder {
+  private snapshots: Map<number, Map<number, SnapshotEntity>> = new Map();
+  private latestSequence = 0;
+
+  // Decode a snapshot. Returns null if it can't be applied (stale, or its baseline
+  // is missing); the caller should then acknowledge 0 to request a full snapshot.
+  decode(buffer: ArrayBuffer): DecodedSnapshot | null {
+    const reader = new BinaryReader(buffer);
+
+    const version = reader.readU8();
+    if (version !== SNAPSHOT_VERSION) {
+      console.warn(`Unsupported snapshot version ${version}`);
+      return null;
+    }
+
+    const sequence = reader.readU32();
+    const baselineSequence = reader.readU32();
+    const playerNetId = reader.readU16();
+    const inputSequence = reader.readU32();
+
+    if (sequence <= this.latestSequence) return null;
+
+    const baseline = baselineSequence === 0 ? new Map<number, SnapshotEntity>() : this.snapshots.get(baselineSequence);
+    if (!baseline) {
+      console.warn(`Missing snapshot baseline ${baselineSequence}, requesting full snapshot`);
+      return null;
+    }
+
+    const previous = this.snapshots.get(this.latestSequence) || new Map<number, SnapshotEntity>();
+    const current = new Map(baseline);
+
+    const recordCount = reader.readU16();
+    for (let i = 0; i < recordCount; i++) {
+      const netId = reader.readU16();
+      const header = reader.readU8();
+      const op = header >> 4;
+      const kind = ENTITY_KINDS[header & 0x0f];
+
+      if (op === SnapshotOp.Remove) {
+        current.delete(netId);
+      } else if (op === SnapshotOp.Create) {
+        current.set(netId, this.readCreate(reader, netId, kind));
+      } else if (op === SnapshotOp.Update) {
+        const base = current.get(netId);
+        const updated = this.readUpdate(reader, base, kind);
+        if (base) current.set(netId, updated);
+      }
+    }
+
+    // Store as a potential baseline and drop anything older than this one's baseline
+    this.snapshots.set(sequence, current);
+    this.latestSequence = sequence;
+    for (const seq of this.snapshots.keys()) {
+      if (seq < baselineSequence) this.snapshots.delete(seq);
+    }
+
+    // Work out what changed relative to the snapshot the game last saw.
+    // Untouched entities keep the same object, so identity is enough.
+    const changed: SnapshotEntity[] = [];
+    const removed: SnapshotEntity[] = [];
+    for (const [netId, entity] of current) {
+      if (previous.get(netId) !== entity) changed.push(entity);
+    }
+    for (const [netId, entity] of previous) {
+      if (!current.has(netId)) removed.push(entity);
+    }
+
+    return {
+      sequence,
+      inputSequence,
+      player: current.get(playerNetId) || null,
+      changed,
+      removed,
+      entities: current
+    };
+  }
+
+  // Forget all state, e.g. after a reconnect
+  reset(): void {
+    this.snapshots.clear();
+    this.latestSequence = 0;
+  }
+
+  private readField(reader: BinaryReader, field: FieldDescriptor): any {
+    switch (field.type) {
+      case 'fixed':
+        return reader.readU16() / FIXED_POINT_SCALE;
+      case 'sfixed':
+        return reader.readI16() / FIXED_POINT_SCALE;
+      case 'hp':
+        return reader.readU32() / HP_SCALE;
+      case 'angle':
+        return reader.readU16() / 0x10000 * Math.PI * 2;
+      case 'u16':
+        return reader.readU16();
+      case 'u8':
+        return reader.readU8();
+      case 'enum':
+        return (field.values || [])[reader.readU8()];
+      case 'string':
+        return reader.readShortString();
+    }
+  }
+
+  // Ids are either 16 raw UUID bytes or a short string
+  private readId(reader: BinaryReader): string {
+    if (reader.readU8() === 1) {
+      const hex = Array.from(reader.readBytes(16), byte => byte.toString(16).padStart(2, '0')).join('');
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    }
+    return reader.readShortString();
+  }
+
+  private readExtras(reader: BinaryReader): Record<string, any> {
+    const json = reader.readLongString();
+    return json ? JSON.parse(json) : {};
+  }
+
+  private readCreate(reader: BinaryReader, netId: number, kind: EntityKindDescriptor): SnapshotEntity {
+    const entity: SnapshotEntity = { netId, id: this.readId(reader), type: kind.type };
+
+    kind.fields.forEach(field => {
+      entity[field.key] = this.readField(reader, field);
+    });
+
+    return Object.assign(entity, this.readExtras(reader));
+  }
+
+  // Apply an update record on top of the baseline entity (always consumes the record)
+  private readUpdate(reader: BinaryReader, base: SnapshotEntity | undefined, kind: EntityKindDescriptor): SnapshotEntity {
+    const mask = reader.readU16();
+    const entity: SnapshotEntity = { ...(base || { netId: 0, id: '', type: kind.type }) };
+
+    kind.fields.forEach((field, i) => {
+      if (mask & (1 << i)) entity[field.key] = this.readField(reader, field);
+    });
+
+    if (mask & (1 << EXTRAS_MASK_BIT)) {
+      // Replace the previous extras entirely
+      const extras = this.readExtras(reader);
+      const fieldKeys = new Set(kind.fields.map(field => field.key));
+      for (const key of Object.keys(entity)) {
+        if (!fieldKeys.has(key) && key !== 'netId' && key !== 'id' && key !== 'type') delete entity[key];
+      }
+      Object.assign(entity, extras);
+    }
+
+    return entity;
+  }
+}
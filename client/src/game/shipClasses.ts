@@ -0,0 +1,94 @@
+// Ship classes, indexed by `shipType`. Mirrors api/src/game/ShipClasses.ts
+// (the server's copy is authoritative); keep the two tables in sync when tuning.
+
+export interface ShipGrowth {
+  sizePerHp: number; // Size gained per HP
+  maxSize: number; // Size never grows past this
+  cannonHpStep: number; // HP needed per extra pair of cannons
+}
+
+export interface ShipClass {
+  id: number;
+  name: string;
+  description: string;
+  maxSpeed: number; // Top speed in still water at base size (px/s)
+  turnRate: number; // Radians per second at base size
+  cannonCooldownMs: number; // Time between broadsides
+  projectileSpeed: number; // Cannonball speed (px/s)
+  hullStrength: number; // Effective HP multiplier: incoming damage is divided by it
+  growth: ShipGrowth;
+}
+
+export const SHIP_CLASSES: ShipClass[] = [
+  {
+    id: 0,
+    name: 'Crimson Crusader',
+    description: 'Balanced brigantine, good at everything and great at nothing',
+    maxSpeed: 300,
+    turnRate: 2,
+    cannonCooldownMs: 2000,
+    projectileSpeed: 300,
+    hullStrength: 1,
+    growth: { sizePerHp: 2, maxSize: 500, cannonHpStep: 5 }
+  },
+  {
+    id: 1,
+    name: 'Sapphire Steed',
+    description: 'Fast sloop that outruns trouble but cannot take much of it',
+    maxSpeed: 360,
+    turnRate: 2.3,
+    cannonCooldownMs: 2200,
+    projectileSpeed: 300,
+    hullStrength: 0.8,
+    growth: { sizePerHp: 1.5, maxSize: 400, cannonHpStep: 6 }
+  },
+  {
+    id: 2,
+    name: 'Verdant Fang',
+    description: 'Nimble raider with quick reloads and short-ranged shot',
+    maxSpeed: 320,
+    turnRate: 2.8,
+    cannonCooldownMs: 1800,
+    projectileSpeed: 260,
+    hullStrength: 0.9,
+    growth: { sizePerHp: 2, maxSize: 450, cannonHpStep: 5 }
+  },
+  {
+    id: 3,
+    name: 'Gilded Ship',
+    description: 'Merchant galleon that grows fast and arms up early',
+    maxSpeed: 260,
+    turnRate: 1.7,
+    cannonCooldownMs: 2200,
+    projectileSpeed: 300,
+    hullStrength: 1.2,
+    growth: { sizePerHp: 2.5, maxSize: 550, cannonHpStep: 4 }
+  },
+  {
+    id: 4,
+    name: 'Pale Wanderer',
+    description: 'Long-range frigate with fast cannonballs and a slow reload',
+    maxSpeed: 290,
+    turnRate: 2,
+    cannonCooldownMs: 2600,
+    projectileSpeed: 400,
+    hullStrength: 0.9,
+    growth: { sizePerHp: 2, maxSize: 500, cannonHpStep: 5 }
+  },
+  {
+    id: 5,
+    name: 'Obsidian Death',
+    description: 'Heavy man-o\'-war: slow to turn, hard to sink, quick to fire',
+    maxSpeed: 240,
+    turnRate: 1.5,
+    cannonCooldownMs: 1600,
+    projectileSpeed: 320,
+    hullStrength: 1.5,
+    growth: { sizePerHp: 2.5, maxSize: 600, cannonHpStep: 5 }
+  }
+];
+
+// Class for a ship type, falling back to the first class for unknown types
+export function getShipClass(shipType: number): ShipClass {
+  return SHIP_CLASSES[shipType] || SHIP_CLASSES[0];
+}